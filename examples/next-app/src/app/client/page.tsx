@@ -1,22 +1,16 @@
 "use client";
 
 import api from "@/utils/api";
-import { useEffect, useState } from "react";
+import { useFetch } from "unified-auth-fetch/react";
 
 const ClientPage = () => {
-  const [data, setData] = useState<any>(null);
-  useEffect(() => {
-    const fetchData = async () => {
-      const result = await api.get("/test");
-      setData(result);
-    };
-    fetchData();
-  }, []);
+  const { data, error, isLoading } = useFetch("/test", { client: api });
 
   return (
     <main>
       <h1>Client Page</h1>
-      <pre>{JSON.stringify(data, null, 2)}</pre>
+      {isLoading && <p>Loading...</p>}
+      <pre>{JSON.stringify(error ?? data, null, 2)}</pre>
     </main>
   );
 };
@@ -0,0 +1,40 @@
+import type {
+  CookieReader,
+  FetchClientConfig,
+  FetchClientFor,
+} from "../types.js";
+import type { RedirectContext } from "../redirects/redirects.types.js";
+
+/**
+ * Incoming request headers, either a `Headers` object or Node's `IncomingHttpHeaders`.
+ */
+export type IncomingHeaders =
+  | Headers
+  | Record<string, string | string[] | undefined>;
+
+export interface AdapterConfig extends FetchClientConfig {
+  /**
+   * Incoming request headers forwarded to the backend, unless set on the client or request.
+   * Add `"authorization"` to forward the user's credentials, this also skips `auth.token`.
+   * @default ["accept-language", "traceparent", "user-agent", "x-request-id"]
+   */
+  forwardHeaders?: string[];
+}
+
+/**
+ * What a framework adapter derives from an incoming request.
+ */
+export interface RequestBinding {
+  headers: IncomingHeaders;
+  cookies: CookieReader;
+  onServerRedirect(ctx: RedirectContext): void | Promise<void>;
+  /** Sends the requests, unless the client sets its own `fetch` */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Returns the client bound to an incoming request, the same one for every call with that request.
+ */
+export type RequestFetchClient<R, C extends FetchClientConfig> = (
+  request: R
+) => FetchClientFor<C>;
@@ -0,0 +1,2 @@
+export * from "./requestAdapter.js";
+export * from "./adapters.types.js";
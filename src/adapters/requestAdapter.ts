@@ -0,0 +1,70 @@
+import { createFetchClient } from "../createApiSingleton.js";
+import type { FetchClientConfig, FetchClientFor } from "../types.js";
+import { mergeHeaders } from "../utils/index.js";
+import type {
+  AdapterConfig,
+  IncomingHeaders,
+  RequestBinding,
+  RequestFetchClient,
+} from "./adapters.types.js";
+
+// `authorization` is opt-in, it would send the user's credentials to any backend
+const defaultForwardedHeaders = [
+  "accept-language",
+  "traceparent",
+  "user-agent",
+  "x-request-id",
+];
+
+/**
+ * Copies the given headers from an incoming request, joining repeated Node headers.
+ */
+function pickHeaders(source: IncomingHeaders, names: string[]): Headers {
+  const headers = new Headers();
+  for (const name of names) {
+    const value =
+      source instanceof Headers ? source.get(name) : source[name.toLowerCase()];
+    if (value == null) continue;
+    headers.set(name, Array.isArray(value) ? value.join(", ") : value);
+  }
+  return headers;
+}
+
+/**
+ * Creates a client per incoming request from what `bind` derives from it.
+ * Client options win over the adapter's: `headers` over forwarded ones,
+ * `cookies` and `redirects.onServerRedirect` over the derived ones.
+ */
+function createRequestAdapter<R extends object, C extends AdapterConfig>(
+  config: C,
+  bind: (request: R) => RequestBinding
+): RequestFetchClient<R, C> {
+  const { forwardHeaders = defaultForwardedHeaders, ...clientConfig } = config;
+  const clients = new WeakMap<R, FetchClientFor<C>>();
+
+  return (request) => {
+    let client = clients.get(request);
+    if (client) return client;
+
+    const binding = bind(request);
+    client = createFetchClient({
+      ...clientConfig,
+      headers: mergeHeaders(
+        pickHeaders(binding.headers, forwardHeaders),
+        clientConfig.headers
+      ),
+      cookies: clientConfig.cookies ?? binding.cookies,
+      redirects: {
+        ...clientConfig.redirects,
+        onServerRedirect:
+          clientConfig.redirects?.onServerRedirect ?? binding.onServerRedirect,
+      },
+      fetch: clientConfig.fetch ?? binding.fetch,
+    } as FetchClientConfig) as FetchClientFor<C>;
+
+    clients.set(request, client);
+    return client;
+  };
+}
+
+export { createRequestAdapter, pickHeaders };
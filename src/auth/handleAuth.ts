@@ -0,0 +1,38 @@
+import type { CookieReader, CookieSource, ServerAuthConfig } from "../types.js";
+import { mergeCookieHeader } from "../utils/index.js";
+
+const emptyCookieStore: CookieReader = {
+  get: () => undefined,
+};
+
+async function resolveCookieStore(
+  source?: CookieSource
+): Promise<CookieReader> {
+  if (!source) return emptyCookieStore;
+  return typeof source === "function" ? await source() : source;
+}
+
+/**
+ * Resolves the server auth cookies for a single request and writes them into
+ * the outgoing `Cookie` header. Cookies supplied by the caller are preserved.
+ */
+async function applyServerCookies(
+  headers: Headers,
+  req: { url: string; method: string },
+  server?: ServerAuthConfig,
+  cookieSource?: CookieSource
+): Promise<void> {
+  if (!server?.cookies || server.enabled === false) return;
+
+  const cookieStore = await resolveCookieStore(cookieSource);
+  const cookies = await server.cookies({
+    cookieStore,
+    url: req.url,
+    method: req.method,
+  });
+
+  const header = mergeCookieHeader(headers.get("cookie"), cookies ?? {});
+  if (header) headers.set("cookie", header);
+}
+
+export { applyServerCookies, resolveCookieStore };
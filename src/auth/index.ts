@@ -0,0 +1,2 @@
+export * from "./handleAuth.js";
+export * from "./tokenAuth.js";
@@ -0,0 +1,67 @@
+import type {
+  TokenAuthConfig,
+  TokenContext,
+  TokenRefreshContext,
+} from "../types.js";
+
+export interface TokenAuth {
+  /** Sets the token header, returns false when token auth does not apply */
+  apply(headers: Headers, ctx: TokenContext): Promise<boolean>;
+  /** Refreshes the token and sets it on the headers, returns false on failure */
+  refresh(headers: Headers, ctx: TokenRefreshContext): Promise<boolean>;
+}
+
+export function createTokenAuth(config?: TokenAuthConfig): TokenAuth {
+  const headerName = config?.header ?? "authorization";
+  const scheme = config?.scheme ?? "Bearer";
+
+  // Keyed by the rejected header, only requests that failed with the same
+  // token share a refresh, users of a shared server client never do
+  const inFlight = new Map<string, Promise<string | null>>();
+
+  function setToken(headers: Headers, token: string) {
+    headers.set(headerName, scheme ? `${scheme} ${token}` : token);
+  }
+
+  async function runRefresh(ctx: TokenRefreshContext): Promise<string | null> {
+    try {
+      const refreshed = await config!.refresh!(ctx);
+      if (refreshed) return refreshed;
+      return (await config!.getToken(ctx)) || null;
+    } catch {
+      return null;
+    }
+  }
+
+  return {
+    async apply(headers, ctx) {
+      if (!config || config.enabled === false) return false;
+      // An explicit header on the request wins over the provider
+      if (headers.has(headerName)) return false;
+
+      const token = await config.getToken(ctx);
+      if (token) setToken(headers, token);
+
+      return true;
+    },
+
+    async refresh(headers, ctx) {
+      if (!config?.refresh) return false;
+
+      const rejected = headers.get(headerName) ?? "";
+      let refreshing = inFlight.get(rejected);
+      if (!refreshing) {
+        refreshing = runRefresh(ctx).finally(() => {
+          inFlight.delete(rejected);
+        });
+        inFlight.set(rejected, refreshing);
+      }
+
+      const token = await refreshing;
+      if (!token) return false;
+
+      setToken(headers, token);
+      return true;
+    },
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * A cached GET response. Entries are plain data so any storage can hold them.
+ */
+export interface CacheEntry {
+  /** Custom `cache.key`, or the request URL */
+  key: string;
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+  etag?: string;
+  /**
+   * Request headers listed in the response's `Vary` header, `null` when missing.
+   * Only requests with the same values are served from the entry.
+   */
+  vary?: Record<string, string | null>;
+  /** Served without a request until this time (ms since epoch) */
+  expiresAt: number;
+  /** Served while revalidating in the background until this time (ms since epoch) */
+  staleUntil: number;
+}
+
+/**
+ * Where cached responses are kept. Methods can be sync or async,
+ * e.g. a `Map`, `localStorage` or Redis.
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  keys(): Iterable<string> | Promise<Iterable<string>>;
+}
+
+export interface CacheOptions {
+  /**
+   * Time in ms a response is served without a request.
+   * Without one, the response's `Cache-Control: max-age` is used.
+   * @default 0
+   */
+  ttl?: number;
+  /**
+   * Time in ms after `ttl` a stale response is served while it is revalidated in the background.
+   * Without one, the response's `Cache-Control: stale-while-revalidate` is used.
+   * @default 0
+   */
+  staleWhileRevalidate?: number;
+}
+
+export interface CacheConfig extends CacheOptions {
+  /**
+   * Storage for cached responses.
+   * @default in-memory LRU
+   */
+  store?: CacheStore;
+  /**
+   * Max entries of the default in-memory store.
+   * @default 500
+   */
+  maxEntries?: number;
+}
+
+export interface RequestCacheOptions extends CacheOptions {
+  /** Replaces the URL in the cache key, auth identity is always part of the key */
+  key?: string;
+}
+
+/**
+ * Per-request cache option.
+ * - `false` skips the cache
+ * - An object enables the cache for this request, even without a client cache
+ * - A `RequestCache` string is passed to `fetch`, modes that bypass the HTTP cache also skip this cache
+ */
+export type RequestCacheOption = RequestCache | false | RequestCacheOptions;
+
+/**
+ * Matches cache entries for `client.invalidate()`.
+ * A string drops entries whose URL is that path (with any query string or sub-path) or whose custom key equals it.
+ */
+export type CacheInvalidation = string | ((entry: CacheEntry) => boolean);
@@ -0,0 +1,308 @@
+import type { SendResult } from "../types.js";
+import { createRequestSignal } from "../utils/index.js";
+import type {
+  CacheConfig,
+  CacheEntry,
+  CacheInvalidation,
+  RequestCacheOption,
+  RequestCacheOptions,
+} from "./cache.types.js";
+import { createMemoryStore } from "./memoryStore.js";
+
+// fetch cache modes that never serve from the HTTP cache also skip this one
+const BYPASS_MODES: RequestCache[] = ["no-store", "reload", "no-cache"];
+
+export interface CacheRequest {
+  key: string;
+  url: string;
+  policy: RequestCacheOptions;
+  headers: Headers;
+  signal: AbortSignal;
+  /** Timeout for background revalidation */
+  timeout?: number;
+}
+
+export interface ResponseCache {
+  /** Cache options for a request, or `undefined` when it is not cached */
+  policy(
+    method: string,
+    option: RequestCacheOption | undefined
+  ): RequestCacheOptions | undefined;
+  /**
+   * Storage key, scoped to the auth identity (`Authorization` and `Cookie` headers).
+   * `undefined` when the identity can't be hashed, those requests are never cached.
+   */
+  key(
+    url: string,
+    headers: Headers,
+    policy: RequestCacheOptions
+  ): Promise<string | undefined>;
+  /** Serves a request from the cache, sending it with `send` when needed */
+  run(
+    request: CacheRequest,
+    send: (signal: AbortSignal) => Promise<SendResult>
+  ): Promise<SendResult>;
+  invalidate(
+    match: CacheInvalidation,
+    resolveUrl: (path: string) => string
+  ): Promise<void>;
+}
+
+/**
+ * Parses the `Cache-Control` directives used by the cache, in seconds.
+ */
+function parseCacheControl(header: string | null) {
+  const directives = new Map<string, string | true>();
+  for (const part of (header ?? "").split(",")) {
+    const [name, value] = part.trim().split("=");
+    if (name) directives.set(name.toLowerCase(), value ?? true);
+  }
+
+  const seconds = (name: string) => {
+    const value = Number(directives.get(name));
+    return Number.isFinite(value) && value >= 0 ? value * 1000 : undefined;
+  };
+
+  return {
+    noStore: directives.has("no-store"),
+    noCache: directives.has("no-cache"),
+    maxAge: seconds("max-age"),
+    staleWhileRevalidate: seconds("stale-while-revalidate"),
+  };
+}
+
+function isTextContent(res: Response): boolean {
+  const type = res.headers.get("content-type");
+  return !type || /json|xml|javascript|^text\//i.test(type);
+}
+
+async function hashIdentity(headers: Headers): Promise<string | undefined> {
+  const identity = ["authorization", "cookie"]
+    .map((name) => headers.get(name) ?? "")
+    .join("\n");
+  if (identity === "\n") return "anonymous";
+
+  // Never store raw credentials in keys, and never share entries without a hash
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) return undefined;
+
+  const digest = await subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(identity)
+  );
+  return [...new Uint8Array(digest)]
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function varyHeaders(res: Response): string[] {
+  return (res.headers.get("vary") ?? "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Whether `headers` ask for the representation cached in `entry`.
+ */
+function matchesVary(entry: CacheEntry, headers: Headers): boolean {
+  return Object.entries(entry.vary ?? {}).every(
+    ([name, value]) => headers.get(name) === value
+  );
+}
+
+function toResponse(entry: CacheEntry): Response {
+  return new Response(entry.body, {
+    status: entry.status,
+    headers: entry.headers,
+  });
+}
+
+export function createResponseCache(
+  config: boolean | CacheConfig | undefined
+): ResponseCache {
+  const enabled = !!config;
+  const {
+    store = createMemoryStore(
+      typeof config === "object" ? config.maxEntries : undefined
+    ),
+    ...defaults
+  } = typeof config === "object" ? config : {};
+
+  const revalidating = new Set<string>();
+
+  // Storage failures are treated as misses, they never fail the request
+  async function read(key: string) {
+    try {
+      return await store.get(key);
+    } catch {
+      return undefined;
+    }
+  }
+
+  async function write(key: string, entry: CacheEntry) {
+    try {
+      await store.set(key, entry);
+    } catch {}
+  }
+
+  function freshness(
+    res: Response,
+    policy: RequestCacheOptions,
+    now = Date.now()
+  ) {
+    const control = parseCacheControl(res.headers.get("cache-control"));
+    const ttl = control.noCache
+      ? 0
+      : policy.ttl ?? control.maxAge ?? defaults.ttl ?? 0;
+    const swr =
+      policy.staleWhileRevalidate ??
+      control.staleWhileRevalidate ??
+      defaults.staleWhileRevalidate ??
+      0;
+
+    return { expiresAt: now + ttl, staleUntil: now + ttl + swr };
+  }
+
+  /**
+   * Stores cacheable responses and turns a 304 into the cached response.
+   */
+  async function update(
+    request: CacheRequest,
+    entry: CacheEntry | undefined,
+    sent: SendResult
+  ): Promise<SendResult> {
+    const res = sent.response;
+    if (!res) return sent;
+
+    const { key, url, policy } = request;
+
+    if (res.status === 304 && entry) {
+      const refreshed: CacheEntry = {
+        ...entry,
+        ...freshness(res, policy),
+        etag: res.headers.get("etag") ?? entry.etag,
+      };
+      await write(key, refreshed);
+      return { response: toResponse(refreshed), attempts: sent.attempts };
+    }
+
+    const control = parseCacheControl(res.headers.get("cache-control"));
+    const vary = varyHeaders(res);
+    if (
+      res.status !== 200 ||
+      control.noStore ||
+      vary.includes("*") ||
+      !isTextContent(res)
+    ) {
+      return sent;
+    }
+
+    const etag = res.headers.get("etag") ?? undefined;
+    const times = freshness(res, policy);
+    // Nothing to serve or revalidate later
+    if (times.staleUntil <= Date.now() && !etag) return sent;
+
+    const headers: Record<string, string> = {};
+    res.headers.forEach((v, k) => (headers[k] = v));
+
+    await write(key, {
+      key: policy.key ?? url,
+      url,
+      status: res.status,
+      headers,
+      body: await res.clone().text(),
+      etag,
+      vary: vary.length
+        ? Object.fromEntries(
+            vary.map((name) => [name, request.headers.get(name)])
+          )
+        : undefined,
+      ...times,
+    });
+
+    return sent;
+  }
+
+  function revalidate(
+    request: CacheRequest,
+    entry: CacheEntry,
+    send: (signal: AbortSignal) => Promise<SendResult>
+  ) {
+    if (revalidating.has(request.key)) return;
+    revalidating.add(request.key);
+
+    // Outlives the caller, so it only has its own timeout
+    const signal = createRequestSignal(undefined, request.timeout);
+    send(signal.signal)
+      .then((sent) => update(request, entry, sent))
+      .then((sent) => sent.response?.body?.cancel())
+      .catch(() => {})
+      .finally(() => {
+        revalidating.delete(request.key);
+        signal.clear();
+      });
+  }
+
+  return {
+    policy(method, option) {
+      if (method.toUpperCase() !== "GET" || option === false) return undefined;
+      if (typeof option === "string") {
+        return enabled && !BYPASS_MODES.includes(option) ? {} : undefined;
+      }
+      return option ?? (enabled ? {} : undefined);
+    },
+
+    async key(url, headers, policy) {
+      const identity = await hashIdentity(headers);
+      if (!identity) return undefined;
+
+      return JSON.stringify(["GET", policy.key ?? url, identity]);
+    },
+
+    async run(request, send) {
+      const stored = await read(request.key);
+      // Another representation of the URL is a miss, and gets replaced
+      const entry =
+        stored && matchesVary(stored, request.headers) ? stored : undefined;
+      const now = Date.now();
+
+      if (entry && now < entry.expiresAt) {
+        return { response: toResponse(entry), attempts: 0 };
+      }
+
+      if (entry && now < entry.staleUntil) {
+        if (entry.etag) request.headers.set("if-none-match", entry.etag);
+        revalidate(request, entry, send);
+        return { response: toResponse(entry), attempts: 0 };
+      }
+
+      // Expired, revalidate with the ETag when there is one
+      if (entry?.etag && !request.headers.has("if-none-match")) {
+        request.headers.set("if-none-match", entry.etag);
+      }
+
+      const sent = await send(request.signal);
+      return update(request, entry?.etag ? entry : undefined, sent);
+    },
+
+    async invalidate(match, resolveUrl) {
+      let matches: (entry: CacheEntry) => boolean;
+      if (typeof match === "function") {
+        matches = match;
+      } else {
+        const url = resolveUrl(match);
+        matches = (entry) =>
+          entry.key === match ||
+          entry.url === url ||
+          entry.url.startsWith(`${url}?`) ||
+          entry.url.startsWith(`${url}/`);
+      }
+
+      for (const key of [...(await store.keys())]) {
+        const entry = await read(key);
+        if (entry && matches(entry)) await store.delete(key);
+      }
+    },
+  };
+}
@@ -0,0 +1,2 @@
+export * from "./handleCache.js";
+export * from "./memoryStore.js";
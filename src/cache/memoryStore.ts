@@ -0,0 +1,33 @@
+import type { CacheEntry, CacheStore } from "./cache.types.js";
+
+/**
+ * In-memory LRU store, the least recently used entry is dropped once `maxEntries` is reached.
+ */
+export function createMemoryStore(maxEntries = 500): CacheStore {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        // Move to the end, Maps keep insertion order
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+    keys() {
+      return [...entries.keys()];
+    },
+  };
+}
@@ -1,35 +1,125 @@
 import { createFetchClient } from "./createClient.js";
+import { createPaginator } from "./paginate/index.js";
+import { getRequestScope } from "./scope/index.js";
+import { isServer, mergeConfig } from "./utils/index.js";
 import {
   FetchClient,
   FetchClientConfig,
-  FetchClientForOptions,
+  FetchClientFor,
+  PaginateMethod,
+  SafeMethods,
+  StreamMethod,
+  UnsafeMethods,
 } from "./types.js";
 
-let apiInstance: FetchClient | null = null;
+const unsafeMethods: UnsafeMethods[] = [
+  "get",
+  "post",
+  "put",
+  "patch",
+  "delete",
+];
+const safeMethods: SafeMethods[] = [
+  "safeGet",
+  "safePost",
+  "safePut",
+  "safePatch",
+  "safeDelete",
+  "request",
+];
 
-async function initApi(config: FetchClientConfig = {}): Promise<FetchClient> {
-  if (apiInstance) return apiInstance;
+/**
+ * Creates a client that lazily initializes its own fetch client on first use.
+ * With `options.scope: "request"`, a new instance is used for every server request.
+ */
+function createLazyApiProxy<C extends FetchClientConfig = FetchClientConfig>(
+  config: C = {} as C
+): FetchClientFor<C> {
+  const { scope = "shared" } = config.options || {};
+
+  let sharedInstance: FetchClient | null = null;
+  // Identifies this client's instance within a request scope
+  const scopeKey = {};
 
-  apiInstance = createFetchClient(config);
+  async function resolveClient(): Promise<FetchClient> {
+    if (scope === "request" && isServer()) {
+      const requestScope = await getRequestScope();
+      // Outside a request scope, nothing is shared between calls
+      if (!requestScope) return createFetchClient(config) as FetchClient;
 
-  return apiInstance;
+      let instance = requestScope.get(scopeKey);
+      if (!instance) {
+        instance = createFetchClient(config) as FetchClient;
+        requestScope.set(scopeKey, instance);
+      }
+      return instance;
+    }
+
+    sharedInstance ??= createFetchClient(config) as FetchClient;
+    return sharedInstance;
+  }
+
+  return createLazyMethods(config, resolveClient);
 }
 
+type ClientMethod = UnsafeMethods | SafeMethods;
+
 /**
- * Creates a proxy that lazily initializes the fetch client.
+ * A method that resolves the underlying client before every call.
  */
-function createLazyApiProxy<C extends FetchClientConfig = FetchClientConfig>(
-  config: C = {} as C
-): FetchClientForOptions<C["options"]> {
-  return new Proxy({} as FetchClientForOptions<C["options"]>, {
-    get(_, prop: keyof FetchClient) {
-      return async (...args: any[]) => {
-        const client = await initApi(config);
-        // @ts-ignore
-        return client[prop](...args);
-      };
-    },
-  });
+function lazyMethod<K extends ClientMethod>(
+  method: K,
+  resolveClient: () => Promise<FetchClient>
+): FetchClient[K] {
+  type Method = (...args: Parameters<FetchClient[K]>) => Promise<unknown>;
+
+  return (async (...args: Parameters<FetchClient[K]>) => {
+    const client = await resolveClient();
+    return (client[method] as Method)(...args);
+  }) as FetchClient[K];
+}
+
+/**
+ * Exposes the client's methods, resolving the underlying client on every call.
+ */
+function createLazyMethods<C extends FetchClientConfig>(
+  config: C,
+  resolveClient: () => Promise<FetchClient>
+): FetchClientFor<C> {
+  const { disableUnsafeRequests = false } = config.options || {};
+
+  const methods: ClientMethod[] = disableUnsafeRequests
+    ? safeMethods
+    : [...unsafeMethods, ...safeMethods];
+
+  const lazyClient: Partial<FetchClient> = {
+    invalidate: async (match) => (await resolveClient()).invalidate(match),
+    extend: (child) =>
+      createLazyApiProxy(mergeConfig(config, child)) as FetchClient,
+    with: (scoped) =>
+      createLazyMethods(config, async () =>
+        (await resolveClient()).with(scoped)
+      ) as FetchClient,
+    ...Object.fromEntries(
+      methods.map((method) => [method, lazyMethod(method, resolveClient)])
+    ),
+  };
+
+  // Iterators are returned right away, so they can be used with `for await`
+  if (!disableUnsafeRequests) {
+    lazyClient.stream = ((...args: Parameters<StreamMethod>) =>
+      (async function* () {
+        const client = await resolveClient();
+        yield* client.stream(...args);
+      })()) as StreamMethod;
+    lazyClient.paginate = ((...args: Parameters<PaginateMethod>) =>
+      createPaginator(async function* () {
+        const client = await resolveClient();
+        yield* client.paginate(...args).pages();
+      })) as PaginateMethod;
+  }
+
+  return lazyClient as unknown as FetchClientFor<C>;
 }
 
 export { createLazyApiProxy as createFetchClient };
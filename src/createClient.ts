@@ -1,13 +1,35 @@
-import { handleError } from "./errors/index.js";
-import { handleRedirect } from "./redirects/index.js";
-import type {
-  FetchClient,
-  FetchClientConfig,
-  RequestOptions,
-  StandardResponse,
-  RequestContext,
-  FullResponseShaper,
-  FetchClientForOptions,
+import { applyServerCookies, createTokenAuth } from "./auth/index.js";
+import { createResponseCache } from "./cache/index.js";
+import { createInflightRequests, getDedupeKey } from "./dedupe/index.js";
+import {
+  handleError,
+  handleRequestFailure,
+  handleValidationError,
+} from "./errors/index.js";
+import { createRequestLogger, createTraceparent } from "./logging/index.js";
+import { composeMiddleware } from "./middleware/index.js";
+import { createPaginator, readPages } from "./paginate/index.js";
+import { trackDownload, trackUpload } from "./progress/index.js";
+import { getRedirectLocation, handleRedirect } from "./redirects/index.js";
+import { resolveRetryPolicy, sendWithRetry } from "./retry/index.js";
+import { readStream } from "./stream/index.js";
+import { validateSchema, formatIssues } from "./validation/index.js";
+import {
+  type FetchClient,
+  type FetchClientConfig,
+  type RequestOptions,
+  type StandardResponse,
+  type RequestContext,
+  type FullResponseShaper,
+  type FetchClientFor,
+  type ScopedOptions,
+  type DerivedClients,
+  type PaginateMethod,
+  type PaginateOptions,
+  type StreamMethod,
+  type StreamOptions,
+  RedirectError,
+  ValidationError,
 } from "./types.js";
 import {
   isServer,
@@ -15,6 +37,12 @@ import {
   mergeHeaders,
   parseResponse,
   createStandardShaper,
+  createRequestSignal,
+  sendRequest,
+  serializeBody,
+  isStreamBody,
+  mergeConfig,
+  applyScopedOptions,
 } from "./utils/index.js";
 
 // ============================================================================
@@ -23,11 +51,23 @@ import {
 
 export function createFetchClient<
   C extends FetchClientConfig = FetchClientConfig
->(config: C = {} as C): FetchClientForOptions<C["options"]> {
+>(config: C = {} as C): FetchClientFor<C> {
   const {
     baseUrl,
+    cookies: cookieSource,
     headers: globalHeaders,
     redirects,
+    retry: globalRetry,
+    timeout: globalTimeout,
+    dedupe: globalDedupe = true,
+    cache: cacheConfig,
+    paramsSerializer,
+    middleware = [],
+    fetch: fetchImpl,
+    serializers,
+    parsers,
+    logger,
+    traceparent,
     auth,
     errors: handlers,
     options = {},
@@ -35,6 +75,14 @@ export function createFetchClient<
 
   const { disableUnsafeRequests = false } = options || {};
 
+  const tokenAuth = createTokenAuth(auth?.token);
+  const inflight = createInflightRequests();
+  const responseCache = createResponseCache(cacheConfig);
+  const requestLogger = createRequestLogger(logger);
+  const dispatch = composeMiddleware(middleware, (ctx) =>
+    sendRequest(ctx.request, fetchImpl)
+  );
+
   const defaultShaper = createStandardShaper();
   const userShaper = config.responseFormat;
 
@@ -50,7 +98,8 @@ export function createFetchClient<
   async function execute<T>(
     path: string,
     options: RequestOptions & { method: string },
-    safe: false
+    safe: false,
+    read?: (res: Response) => Promise<T>
   ): Promise<T>;
   async function execute<T>(
     path: string,
@@ -60,120 +109,501 @@ export function createFetchClient<
   async function execute<T>(
     path: string,
     options: RequestOptions & { method: string },
-    safe: boolean
+    safe: boolean,
+    read?: (res: Response) => Promise<T>
   ): Promise<T | StandardResponse<T>> {
     const {
       method,
       body,
       params,
+      pathParams,
       headers,
-      onError,
+      onError: onErrorOption,
       onRedirect,
       schema,
+      bodySchema,
       disableAuth,
+      retry,
+      timeout,
+      signal,
+      dedupe = globalDedupe,
+      cache,
+      responseType,
+      onUploadProgress,
+      onDownloadProgress,
       ...rest
     } = options;
 
-    const url = buildUrl(baseUrl, path, params);
+    // Callers that read the response themselves can't take an override instead
+    const onError = read ? undefined : onErrorOption;
+
+    const url = buildUrl(baseUrl, path, params, pathParams, paramsSerializer);
+    const log = requestLogger.begin(method, url);
 
     const mergedHeaders = mergeHeaders(globalHeaders, headers);
-    if (body && !mergedHeaders.has("content-type")) {
-      mergedHeaders.set("content-type", "application/json");
+
+    // --------------------------------------------------------------------------
+    // Request body validation (before anything is sent)
+    // --------------------------------------------------------------------------
+    let payload = body;
+    if (bodySchema) {
+      const result = await validateSchema(bodySchema, body);
+      if (result.issues) {
+        const error = new ValidationError(
+          result.issues,
+          body,
+          undefined,
+          `Request body validation failed: ${formatIssues(result.issues)}`
+        );
+        log.error(error, 0);
+        return handleValidationError<T>(
+          error,
+          0,
+          safe,
+          {
+            isServer: isServer(),
+            url,
+            method,
+            headers: mergedHeaders,
+            request: new Request(url, { method, headers: mergedHeaders }),
+            options,
+          },
+          shaper,
+          handlers,
+          onError
+        );
+      }
+      payload = result.value;
+    }
+
+    const hasBody = payload != null && method !== "GET" && method !== "HEAD";
+    const requestBody = hasBody
+      ? serializeBody(payload, mergedHeaders, serializers)
+      : undefined;
+
+    // Streams can only be sent once, so they are never retried or replayed
+    const replayable = !isStreamBody(requestBody);
+
+    const upload =
+      onUploadProgress && requestBody != null
+        ? await trackUpload(requestBody, mergedHeaders, onUploadProgress)
+        : undefined;
+
+    if (isServer() && !disableAuth) {
+      await applyServerCookies(
+        mergedHeaders,
+        { url, method },
+        auth?.server,
+        cookieSource
+      );
+    }
+
+    const usesToken =
+      !disableAuth &&
+      (await tokenAuth.apply(mergedHeaders, {
+        isServer: isServer(),
+        url,
+        method,
+      }));
+
+    if (traceparent && !mergedHeaders.has("traceparent")) {
+      mergedHeaders.set(
+        "traceparent",
+        (typeof traceparent === "function" && traceparent()) ||
+          createTraceparent(log.requestId)
+      );
     }
 
-    // If redirect observation is needed, set redirect mode to 'manual'
+    // If redirect observation is needed in this environment, set redirect mode to 'manual'
+    const redirectHandler = isServer()
+      ? redirects?.onServerRedirect
+      : redirects?.onClientRedirect;
     const redirectMode: RequestRedirect =
-      redirects?.onClientRedirect || redirects?.onServerRedirect
-        ? "manual"
-        : "follow";
+      rest.redirect ?? (redirectHandler || onRedirect ? "manual" : "follow");
 
-    const hasBody = body != null && method !== "GET" && method !== "HEAD";
+    const requestSignal = createRequestSignal(signal, timeout ?? globalTimeout);
 
-    const baseRequest = new Request(url, {
+    const requestInit: RequestInit = {
       ...rest,
+      signal: requestSignal.signal,
       method,
       headers: mergedHeaders,
-      body: hasBody ? JSON.stringify(body) : undefined,
+      body: requestBody,
+      // Required by Node to send a stream body
+      ...(replayable && !upload?.streamed ? {} : { duplex: "half" }),
+      // Only fetch's own cache modes are passed on
+      ...(typeof cache === "string" ? { cache } : {}),
       redirect: redirectMode,
       credentials:
         !isServer() && !disableAuth ? auth?.client?.credentials : undefined,
-    });
+    };
 
     const reqContext: RequestContext = {
       isServer: isServer(),
       url,
       method,
       headers: mergedHeaders,
-      request: baseRequest,
+      request: new Request(url, requestInit),
+      options,
     };
 
-    const res = await fetch(baseRequest);
+    // Every attempt gets a fresh Request, bodies can only be sent once
+    // Upload progress needs a fresh counting body for each attempt
+    const attemptInit = (signal: AbortSignal): RequestInit =>
+      upload
+        ? { ...requestInit, body: upload.body(), signal }
+        : { ...requestInit, signal };
 
-    // --------------------------------------------------------------------------
-    // Redirects
-    // --------------------------------------------------------------------------
-    await handleRedirect(res, reqContext, redirects);
+    async function send(signal: AbortSignal): Promise<Response> {
+      reqContext.request = new Request(url, attemptInit(signal));
+      const res = await dispatch(reqContext);
 
-    // --------------------------------------------------------------------------
-    // Parse Response
-    // --------------------------------------------------------------------------
-    const parsed = await parseResponse(res);
+      // ------------------------------------------------------------------------
+      // Token refresh (replayed once)
+      // ------------------------------------------------------------------------
+      if (res.status !== 401 || !usesToken || !replayable) return res;
 
-    // --------------------------------------------------------------------------
-    // Error handling
-    // --------------------------------------------------------------------------
-    if (!res.ok) {
-      return handleError<T>(
+      const refreshed = await tokenAuth.refresh(mergedHeaders, {
+        isServer: reqContext.isServer,
+        url,
+        method,
+        response: res,
+      });
+      if (!refreshed) return res;
+
+      reqContext.request = new Request(url, attemptInit(signal));
+      return dispatch(reqContext);
+    }
+
+    const sendAll = (signal: AbortSignal) =>
+      sendWithRetry(
+        resolveRetryPolicy(globalRetry, replayable ? retry : false),
+        method,
+        () => send(signal),
+        signal,
+        log.retry
+      );
+
+    // Keyed when sent, after the cache has added any conditional headers
+    const sendShared = (signal: AbortSignal) => {
+      const dedupeKey = dedupe
+        ? getDedupeKey(method, url, mergedHeaders, requestInit.credentials)
+        : undefined;
+      return dedupeKey
+        ? inflight.run(dedupeKey, signal, sendAll)
+        : sendAll(signal);
+    };
+
+    const cachePolicy = responseCache.policy(method, cache);
+    const cacheKey =
+      cachePolicy && (await responseCache.key(url, mergedHeaders, cachePolicy));
+
+    log.start(mergedHeaders, payload);
+    let attempts = 0;
+
+    try {
+      // ------------------------------------------------------------------------
+      // Send (from the cache, or with retries)
+      // ------------------------------------------------------------------------
+      const sent = cacheKey
+        ? await responseCache.run(
+            {
+              key: cacheKey,
+              url,
+              policy: cachePolicy!,
+              headers: mergedHeaders,
+              signal: requestSignal.signal,
+              timeout: timeout ?? globalTimeout,
+            },
+            sendShared
+          )
+        : await sendShared(requestSignal.signal);
+
+      attempts = sent.attempts;
+      if (!sent.response) {
+        const error = requestSignal.signal.aborted
+          ? requestSignal.signal.reason
+          : sent.error;
+        log.error(error, attempts);
+        return await handleRequestFailure<T>(
+          error,
+          attempts,
+          safe,
+          reqContext,
+          shaper,
+          handlers,
+          onError
+        );
+      }
+
+      upload?.complete();
+      const res =
+        onDownloadProgress && sent.response.ok
+          ? trackDownload(sent.response, onDownloadProgress)
+          : sent.response;
+
+      // ------------------------------------------------------------------------
+      // Redirects
+      // ------------------------------------------------------------------------
+      // Logged first, server redirect handlers throw to navigate
+      const location = getRedirectLocation(res, reqContext);
+      if (location) log.redirect(res, location, attempts);
+
+      const redirect = await handleRedirect(
         res,
-        parsed,
-        safe,
         reqContext,
-        shaper,
-        handlers,
-        onError
+        redirects,
+        onRedirect
       );
-    }
 
-    // --------------------------------------------------------------------------
-    // Success
-    // --------------------------------------------------------------------------
-    let data = parsed as T;
-    if (schema) {
-      data = schema.parse(data) as T;
-    }
+      if (redirect.redirected) {
+        res.body?.cancel().catch(() => {});
 
-    if (safe) {
-      return shaper.success({ data, response: res }) as StandardResponse<T>;
-    }
+        if (safe) {
+          return shaper.redirect({
+            location: redirect.location,
+            status: redirect.status,
+            opaque: redirect.opaque,
+            ctx: reqContext,
+          }) as StandardResponse<T>;
+        }
+
+        throw new RedirectError(res, redirect.location);
+      }
 
-    return data;
+      // ------------------------------------------------------------------------
+      // Parse Response
+      // ------------------------------------------------------------------------
+      // Error bodies are always parsed by content-type
+      // `client.stream()` and `client.paginate()` read successful bodies themselves
+      let parsed: unknown;
+      try {
+        parsed =
+          read && res.ok
+            ? await read(res)
+            : await parseResponse(res, {
+                method,
+                responseType: res.ok ? responseType : undefined,
+                parsers,
+              });
+      } catch (err) {
+        if (!requestSignal.signal.aborted) throw err;
+      }
+
+      // Reading the body may have been cut off by a timeout or abort
+      if (requestSignal.signal.aborted) {
+        log.error(requestSignal.signal.reason, attempts, res);
+        return await handleRequestFailure<T>(
+          requestSignal.signal.reason,
+          attempts,
+          safe,
+          reqContext,
+          shaper,
+          handlers,
+          onError
+        );
+      }
+
+      // ------------------------------------------------------------------------
+      // Error handling
+      // ------------------------------------------------------------------------
+      if (!res.ok) {
+        log.error(undefined, attempts, res);
+        return await handleError<T>(
+          res,
+          parsed,
+          attempts,
+          safe,
+          reqContext,
+          shaper,
+          handlers,
+          onError
+        );
+      }
+
+      // ------------------------------------------------------------------------
+      // Success
+      // ------------------------------------------------------------------------
+      if (read) {
+        log.response(res, attempts);
+        return parsed as T;
+      }
+
+      let data = parsed as T;
+      if (schema) {
+        const result = await validateSchema(schema, parsed);
+        if (result.issues) {
+          const error = new ValidationError(
+            result.issues,
+            parsed,
+            res,
+            `Response validation failed: ${formatIssues(result.issues)}`
+          );
+          log.error(error, attempts, res);
+          return await handleValidationError<T>(
+            error,
+            attempts,
+            safe,
+            reqContext,
+            shaper,
+            handlers,
+            onError
+          );
+        }
+        data = result.value as T;
+      }
+
+      log.response(res, attempts);
+
+      if (safe) {
+        return shaper.success({
+          data,
+          response: res,
+          attempts,
+        }) as StandardResponse<T>;
+      }
+
+      return data;
+    } catch (err) {
+      log.error(err, attempts);
+      throw err;
+    } finally {
+      requestSignal.clear();
+    }
   }
 
   // --------------------------------------------------------------------------
   // Public client
   // --------------------------------------------------------------------------
 
-  // Unsafe methods
-  const unsafeMethods = {
-    get: (p, o = {}) => execute(p, { ...o, method: "GET" }, false),
-    post: (p, o = {}) => execute(p, { ...o, method: "POST" }, false),
-    put: (p, o = {}) => execute(p, { ...o, method: "PUT" }, false),
-    patch: (p, o = {}) => execute(p, { ...o, method: "PATCH" }, false),
-    delete: (p, o = {}) => execute(p, { ...o, method: "DELETE" }, false),
-  } as const as FetchClient;
-
-  // Safe methods
-  const safeMethods = {
-    safeGet: (p, o = {}) => execute(p, { ...o, method: "GET" }, true),
-    safePost: (p, o = {}) => execute(p, { ...o, method: "POST" }, true),
-    safePut: (p, o = {}) => execute(p, { ...o, method: "PUT" }, true),
-    safePatch: (p, o = {}) => execute(p, { ...o, method: "PATCH" }, true),
-    safeDelete: (p, o = {}) => execute(p, { ...o, method: "DELETE" }, true),
-
-    request: (p, o) => execute(p, o, false),
-  } as const as FetchClient;
-
-  return (
-    disableUnsafeRequests ? safeMethods : { ...unsafeMethods, ...safeMethods }
-  ) as FetchClientForOptions<C["options"]>;
+  function createMethods(scoped: ScopedOptions): FetchClientFor<C> {
+    const o = <O extends RequestOptions>(opts: O) =>
+      applyScopedOptions(scoped, opts);
+
+    // Unsafe methods
+    const unsafeMethods = {
+      get: (p: string, opts: RequestOptions = {}) =>
+        execute(p, { ...o(opts), method: "GET" }, false),
+      post: (p: string, opts: RequestOptions = {}) =>
+        execute(p, { ...o(opts), method: "POST" }, false),
+      put: (p: string, opts: RequestOptions = {}) =>
+        execute(p, { ...o(opts), method: "PUT" }, false),
+      patch: (p: string, opts: RequestOptions = {}) =>
+        execute(p, { ...o(opts), method: "PATCH" }, false),
+      delete: (p: string, opts: RequestOptions = {}) =>
+        execute(p, { ...o(opts), method: "DELETE" }, false),
+    } as const as FetchClient;
+
+    // Safe methods
+    const safeMethods = {
+      safeGet: (p: string, opts: RequestOptions = {}) =>
+        execute(p, { ...o(opts), method: "GET" }, true),
+      safePost: (p: string, opts: RequestOptions = {}) =>
+        execute(p, { ...o(opts), method: "POST" }, true),
+      safePut: (p: string, opts: RequestOptions = {}) =>
+        execute(p, { ...o(opts), method: "PUT" }, true),
+      safePatch: (p: string, opts: RequestOptions = {}) =>
+        execute(p, { ...o(opts), method: "PATCH" }, true),
+      safeDelete: (p: string, opts: RequestOptions = {}) =>
+        execute(p, { ...o(opts), method: "DELETE" }, true),
+
+      request: (p: string, opts: RequestOptions & { method: string }) =>
+        execute(p, o(opts), false),
+    } as const as FetchClient;
+
+    // Streaming
+    const stream = ((p: string, opts: StreamOptions = {}) => {
+      const { format, reconnect, method = "GET", ...rest } = o(opts);
+
+      return readStream(
+        (lastEventId) =>
+          execute<Response>(
+            p,
+            {
+              ...rest,
+              method,
+              headers: mergeHeaders(
+                format === "sse" ? { accept: "text/event-stream" } : undefined,
+                rest.headers,
+                lastEventId !== undefined
+                  ? { "last-event-id": lastEventId }
+                  : undefined
+              ),
+              dedupe: false,
+              cache: false,
+            },
+            false,
+            async (res) => res
+          ),
+        { format, reconnect, signal: rest.signal }
+      );
+    }) as StreamMethod;
+
+    // Pagination
+    const paginate = ((p: string, opts: PaginateOptions) => {
+      const { strategy, items, ...rest } = o(opts);
+
+      return createPaginator(() =>
+        readPages(
+          async ({ path, params }) => {
+            // The body is read before the request's timeout is cleared
+            const { data, response: res } = await execute(
+              path,
+              { ...rest, params, method: "GET" },
+              false,
+              async (response) => ({
+                data: await parseResponse(response, { method: "GET", parsers }),
+                response,
+              })
+            );
+            return {
+              data,
+              response: res,
+              url:
+                res.url ||
+                buildUrl(
+                  baseUrl,
+                  path,
+                  params,
+                  rest.pathParams,
+                  paramsSerializer
+                ),
+            };
+          },
+          { path: p, params: rest.params },
+          { strategy, items }
+        )
+      );
+    }) as PaginateMethod;
+
+    // Cache
+    const invalidate: FetchClient["invalidate"] = (match) =>
+      responseCache.invalidate(match, (path) =>
+        baseUrl || /^https?:\/\//i.test(path) ? buildUrl(baseUrl, path) : path
+      );
+
+    // Derived clients
+    const derived: DerivedClients<FetchClient> = {
+      extend: (child: FetchClientConfig) =>
+        createFetchClient(mergeConfig(config, child)) as FetchClient,
+      // Shares this client's state (in-flight requests, token refreshes, cache)
+      with: (next: ScopedOptions) =>
+        createMethods(applyScopedOptions(scoped, next)) as FetchClient,
+    };
+
+    const client = disableUnsafeRequests
+      ? { ...safeMethods, invalidate, ...derived }
+      : {
+          ...unsafeMethods,
+          ...safeMethods,
+          stream,
+          paginate,
+          invalidate,
+          ...derived,
+        };
+
+    return client as unknown as FetchClientFor<C>;
+  }
+
+  return createMethods({});
 }
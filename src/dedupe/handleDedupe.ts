@@ -0,0 +1,105 @@
+import type { SendResult } from "../types.js";
+
+const DEDUPABLE_METHODS = ["GET", "HEAD"];
+
+const TRACE_HEADERS = ["traceparent", "tracestate"];
+
+interface InflightEntry {
+  result: Promise<SendResult>;
+  controller: AbortController;
+  waiters: number;
+}
+
+export interface InflightRequests {
+  /**
+   * Joins the in-flight request for `key`, or starts it.
+   * Every caller but the last gets its own clone of the response, so a single
+   * caller reads the body without a copy. The shared request is only aborted
+   * once every caller has aborted.
+   */
+  run(
+    key: string,
+    signal: AbortSignal,
+    start: (signal: AbortSignal) => Promise<SendResult>
+  ): Promise<SendResult>;
+}
+
+/**
+ * Key for requests that can share a network call, or `undefined` when the
+ * request must be sent on its own. Headers are part of the key so requests
+ * with different cookies or tokens never share a response.
+ */
+export function getDedupeKey(
+  method: string,
+  url: string,
+  headers: Headers,
+  credentials?: RequestCredentials
+): string | undefined {
+  if (!DEDUPABLE_METHODS.includes(method.toUpperCase())) return undefined;
+
+  const headerKey: string[] = [];
+  headers.forEach((v, k) => {
+    // Trace context differs for every request
+    if (!TRACE_HEADERS.includes(k)) headerKey.push(`${k}:${v}`);
+  });
+  headerKey.sort();
+
+  return JSON.stringify([method.toUpperCase(), url, credentials, headerKey]);
+}
+
+export function createInflightRequests(): InflightRequests {
+  const inflight = new Map<string, InflightEntry>();
+
+  // The last caller takes the original, cloning it after that would fail
+  function share(result: SendResult, last: boolean): SendResult {
+    return result.response && !last
+      ? { ...result, response: result.response.clone() }
+      : result;
+  }
+
+  return {
+    run(key, signal, start) {
+      let entry = inflight.get(key);
+
+      if (!entry) {
+        const controller = new AbortController();
+        const result = start(controller.signal);
+        entry = { result, controller, waiters: 0 };
+        inflight.set(key, entry);
+
+        const created = entry;
+        const cleanup = () => {
+          if (inflight.get(key) === created) inflight.delete(key);
+        };
+        result.then(cleanup, cleanup);
+      }
+
+      const joined = entry;
+      joined.waiters++;
+
+      return new Promise<SendResult>((resolve, reject) => {
+        const onAbort = () => {
+          joined.waiters--;
+          if (joined.waiters > 0) {
+            return resolve({ error: signal.reason, attempts: 0 });
+          }
+
+          // Last caller left, stop the shared request and report its outcome
+          inflight.delete(key);
+          joined.controller.abort(signal.reason);
+          joined.result.then(resolve, reject);
+        };
+
+        if (signal.aborted) return onAbort();
+        signal.addEventListener("abort", onAbort, { once: true });
+
+        joined.result.then((result) => {
+          if (signal.aborted) return;
+          signal.removeEventListener("abort", onAbort);
+          joined.waiters--;
+          resolve(share(result, joined.waiters === 0));
+        }, reject);
+      });
+    },
+  };
+}
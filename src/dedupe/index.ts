@@ -0,0 +1 @@
+export * from "./handleDedupe.js";
@@ -1,8 +1,16 @@
-import { RequestContext, StandardError } from "../types.js";
+import { RequestContext, StandardError, ValidationIssue } from "../types.js";
 
 export type ErrorStrategy = "throw" | "return";
 
-export interface ErrorContext {
+/**
+ * Why a request failed without an HTTP error status.
+ */
+export type ErrorReason = "timeout" | "aborted" | "network" | "validation";
+
+/**
+ * The server responded with a non-2xx status.
+ */
+export interface HttpErrorContext {
   status: number;
   statusText: string;
   message: string;
@@ -10,8 +18,50 @@ export interface ErrorContext {
   raw: Response;
   url: string;
   method: string;
+  attempts: number;
+  reason?: undefined;
+  error?: undefined;
 }
 
+/**
+ * The request never produced a response (timeout, abort, network failure).
+ */
+export interface RequestFailureContext {
+  status: 0;
+  statusText: "";
+  message: string;
+  parsedBody: undefined;
+  raw?: undefined;
+  url: string;
+  method: string;
+  attempts: number;
+  reason: "timeout" | "aborted" | "network";
+  error: Error;
+}
+
+/**
+ * Data did not match the request's schema.
+ */
+export interface ValidationErrorContext {
+  status: number;
+  statusText: string;
+  message: string;
+  /** The payload that failed validation */
+  parsedBody: unknown;
+  raw?: Response;
+  url: string;
+  method: string;
+  attempts: number;
+  reason: "validation";
+  issues: ValidationIssue[];
+  error: ValidationError;
+}
+
+export type ErrorContext =
+  | HttpErrorContext
+  | RequestFailureContext
+  | ValidationErrorContext;
+
 export interface ErrorConfig {
   handleClientError?(error: StandardError): unknown;
   handleServerError?(error: StandardError, ctx: RequestContext): unknown;
@@ -24,3 +74,67 @@ export class FetchError extends Error {
     this.response = response;
   }
 }
+
+export class NetworkError extends Error {
+  cause: unknown;
+  constructor(cause: unknown, message?: string) {
+    super(
+      message ??
+        (cause instanceof Error
+          ? `Network request failed: ${cause.message}`
+          : "Network request failed")
+    );
+    this.name = "NetworkError";
+    this.cause = cause;
+  }
+}
+
+export class TimeoutError extends Error {
+  timeout: number;
+  constructor(timeout: number, message?: string) {
+    super(message ?? `Request timed out after ${timeout}ms`);
+    this.name = "TimeoutError";
+    this.timeout = timeout;
+  }
+}
+
+export class AbortError extends Error {
+  reason: unknown;
+  constructor(reason?: unknown, message?: string) {
+    super(message ?? "Request was aborted");
+    this.name = "AbortError";
+    this.reason = reason;
+  }
+}
+
+export class ValidationError extends Error {
+  issues: ValidationIssue[];
+  /** The payload that failed validation */
+  data: unknown;
+  response?: Response;
+  constructor(
+    issues: ValidationIssue[],
+    data: unknown,
+    response?: Response,
+    message?: string
+  ) {
+    super(message ?? "Validation failed");
+    this.name = "ValidationError";
+    this.issues = issues;
+    this.data = data;
+    this.response = response;
+  }
+}
+
+export class RedirectError extends Error {
+  location: string;
+  status: number;
+  response: Response;
+  constructor(response: Response, location: string, message?: string) {
+    super(message ?? `Redirected to ${location}`);
+    this.name = "RedirectError";
+    this.location = location;
+    this.status = response.status;
+    this.response = response;
+  }
+}
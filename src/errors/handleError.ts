@@ -1,23 +1,31 @@
 import {
   type StandardResponse,
   type StandardError,
-  type ErrorContext,
+  type HttpErrorContext,
+  type RequestFailureContext,
+  type ValidationErrorContext,
   type RequestContext,
   type ResponseShaper,
   type ErrorConfig,
+  type ErrorReason,
   FetchError,
+  NetworkError,
+  TimeoutError,
+  AbortError,
+  ValidationError,
 } from "../types.js";
 
 async function handleError<T>(
   res: Response,
   parsed: unknown,
+  attempts: number,
   safe: boolean,
   ctx: RequestContext,
   shaper: ResponseShaper,
   handlers?: ErrorConfig,
   onError?: (error: StandardError) => unknown
 ): Promise<T | StandardResponse<T>> {
-  const errorCtx: ErrorContext = {
+  const errorCtx: HttpErrorContext = {
     status: res.status,
     statusText: res.statusText,
     message: `HTTP ${res.status}: ${res.statusText}`,
@@ -25,6 +33,7 @@ async function handleError<T>(
     raw: res,
     url: ctx.url,
     method: ctx.method,
+    attempts,
   };
 
   const shaped = shaper.error(errorCtx);
@@ -43,4 +52,96 @@ async function handleError<T>(
   throw new FetchError(res, shaped.message);
 }
 
-export { handleError };
+/**
+ * Handles a request that failed without a response.
+ * Aborts are intentional and skip the error handlers, anything that is not
+ * a timeout, abort or network failure is rethrown untouched.
+ */
+async function handleRequestFailure<T>(
+  error: unknown,
+  attempts: number,
+  safe: boolean,
+  ctx: RequestContext,
+  shaper: ResponseShaper,
+  handlers?: ErrorConfig,
+  onError?: (error: StandardError) => unknown
+): Promise<T | StandardResponse<T>> {
+  let reason: ErrorReason;
+  if (error instanceof TimeoutError) reason = "timeout";
+  else if (error instanceof AbortError) reason = "aborted";
+  else if (error instanceof NetworkError) reason = "network";
+  else throw error;
+
+  const errorCtx: RequestFailureContext = {
+    status: 0,
+    statusText: "",
+    message: error.message,
+    parsedBody: undefined,
+    url: ctx.url,
+    method: ctx.method,
+    attempts,
+    reason,
+    error,
+  };
+
+  const shaped = shaper.error(errorCtx);
+
+  if (reason !== "aborted") {
+    if (ctx.isServer) {
+      await handlers?.handleServerError?.(shaped, ctx);
+    } else {
+      await handlers?.handleClientError?.(shaped);
+    }
+
+    const override = onError?.(shaped);
+    if (override !== undefined) return override as T;
+  }
+
+  if (safe) return shaped;
+
+  throw error;
+}
+
+/**
+ * Handles data that did not match the request's schema.
+ */
+async function handleValidationError<T>(
+  error: ValidationError,
+  attempts: number,
+  safe: boolean,
+  ctx: RequestContext,
+  shaper: ResponseShaper,
+  handlers?: ErrorConfig,
+  onError?: (error: StandardError) => unknown
+): Promise<T | StandardResponse<T>> {
+  const errorCtx: ValidationErrorContext = {
+    status: error.response?.status ?? 0,
+    statusText: error.response?.statusText ?? "",
+    message: error.message,
+    parsedBody: error.data,
+    raw: error.response,
+    url: ctx.url,
+    method: ctx.method,
+    attempts,
+    reason: "validation",
+    issues: error.issues,
+    error,
+  };
+
+  const shaped = shaper.error(errorCtx);
+
+  if (ctx.isServer) {
+    await handlers?.handleServerError?.(shaped, ctx);
+  } else {
+    await handlers?.handleClientError?.(shaped);
+  }
+
+  const override = onError?.(shaped);
+  if (override !== undefined) return override as T;
+
+  if (safe) return shaped;
+
+  throw error;
+}
+
+export { handleError, handleRequestFailure, handleValidationError };
@@ -0,0 +1,47 @@
+import { createRequestAdapter } from "../adapters/index.js";
+import type { AdapterConfig } from "../adapters/index.js";
+import { RedirectError } from "../types.js";
+import { createCookieReader } from "../utils/index.js";
+import type {
+  ExpressFetchClient,
+  ExpressRequest,
+  ExpressResponse,
+} from "./express.types.js";
+
+/**
+ * `createFetchClient` for Express route handlers.
+ * Returns a function that binds the client to the incoming `req` and `res`:
+ * - Cookies are read from the `Cookie` header
+ * - Request headers listed in `forwardHeaders` are sent to the backend
+ * - Server redirects call `res.redirect()`, then throw a `RedirectError` to stop the handler
+ */
+function createExpressFetchClient<C extends AdapterConfig = AdapterConfig>(
+  config: C = {} as C
+): ExpressFetchClient<C> {
+  const responses = new WeakMap<ExpressRequest, ExpressResponse>();
+
+  const forRequest = createRequestAdapter(config, (req: ExpressRequest) => ({
+    headers: req.headers,
+    cookies: createCookieReader(
+      Array.isArray(req.headers.cookie)
+        ? req.headers.cookie.join("; ")
+        : req.headers.cookie
+    ),
+    onServerRedirect({ location, status }) {
+      const res = responses.get(req);
+      if (res && !res.headersSent) res.redirect(status, location);
+
+      throw new RedirectError(
+        new Response(null, { status, headers: { location } }),
+        location
+      );
+    },
+  }));
+
+  return (req, res) => {
+    responses.set(req, res);
+    return forRequest(req);
+  };
+}
+
+export { createExpressFetchClient as createFetchClient };
@@ -0,0 +1,24 @@
+import type { FetchClientConfig, FetchClientFor } from "../types.js";
+
+/**
+ * The parts of Express' `Request` used by the adapter.
+ */
+export interface ExpressRequest {
+  headers: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * The parts of Express' `Response` used by the adapter.
+ */
+export interface ExpressResponse {
+  headersSent: boolean;
+  redirect(status: number, url: string): void;
+}
+
+/**
+ * Returns the client bound to an incoming request, the same one for every call with that request.
+ */
+export type ExpressFetchClient<C extends FetchClientConfig> = (
+  req: ExpressRequest,
+  res: ExpressResponse
+) => FetchClientFor<C>;
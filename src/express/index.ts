@@ -0,0 +1,3 @@
+export { createFetchClient } from "./createExpressClient.js";
+export type { AdapterConfig, RequestFetchClient } from "../adapters/index.js";
+export * from "./express.types.js";
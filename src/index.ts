@@ -1 +1,3 @@
 export { createFetchClient } from "./createApiSingleton.js";
+export { runInRequestScope } from "./scope/index.js";
+export * from "./types.js";
@@ -0,0 +1,210 @@
+import {
+  type RetryInfo,
+  NetworkError,
+  TimeoutError,
+  AbortError,
+  ValidationError,
+} from "../types.js";
+import { isNativeBody } from "../utils/index.js";
+import type { ErrorLogEvent, LogEvent, LoggerOption } from "./logging.types.js";
+
+const REDACTED = "[REDACTED]";
+
+const CREDENTIAL_HEADERS = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+];
+
+export interface RequestLog {
+  /** 16 hex characters, also the parent id of generated `traceparent` headers */
+  requestId: string;
+  start(headers: Headers, body: unknown): void;
+  retry(info: RetryInfo): void;
+  redirect(res: Response, location: string, attempts: number): void;
+  response(res: Response, attempts: number): void;
+  /** HTTP errors pass the response without an error */
+  error(error: unknown, attempts: number, res?: Response): void;
+}
+
+// An event without the fields every event of a request shares
+type EventFields<E = LogEvent> = E extends LogEvent
+  ? Omit<E, "requestId" | "method" | "url" | "timestamp">
+  : never;
+
+export interface RequestLogger {
+  begin(method: string, url: string): RequestLog;
+}
+
+function randomHex(bytes: number): string {
+  const values = new Uint8Array(bytes);
+  if (globalThis.crypto?.getRandomValues) {
+    globalThis.crypto.getRandomValues(values);
+  } else {
+    for (let i = 0; i < bytes; i++) values[i] = Math.floor(Math.random() * 256);
+  }
+  return [...values].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * A sampled W3C Trace Context header with a new trace id.
+ * https://www.w3.org/TR/trace-context/#traceparent-header
+ */
+export function createTraceparent(parentId: string): string {
+  return `00-${randomHex(16)}-${parentId}-01`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function redactValue(value: unknown, fields: Set<string>): unknown {
+  if (Array.isArray(value)) return value.map((v) => redactValue(v, fields));
+  if (!isPlainObject(value)) return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) => [
+      key,
+      fields.has(key.toLowerCase()) ? REDACTED : redactValue(v, fields),
+    ])
+  );
+}
+
+/**
+ * Validation errors carry the body that failed, which is redacted like logged bodies.
+ */
+function redactError(error: unknown, fields: Set<string>): unknown {
+  if (!(error instanceof ValidationError)) return error;
+
+  return new ValidationError(
+    error.issues,
+    redactValue(error.data, fields),
+    error.response,
+    error.message
+  );
+}
+
+function errorReason(error: unknown): ErrorLogEvent["reason"] {
+  if (error instanceof TimeoutError) return "timeout";
+  if (error instanceof AbortError) return "aborted";
+  if (error instanceof NetworkError) return "network";
+  if (error instanceof ValidationError) return "validation";
+  return "unknown";
+}
+
+/**
+ * Creates per-request loggers, without a logger only request ids are generated.
+ */
+export function createRequestLogger(
+  option: LoggerOption | undefined
+): RequestLogger {
+  const config = typeof option === "function" ? { log: option } : option;
+  const redactHeaders = new Set(
+    [...CREDENTIAL_HEADERS, ...(config?.redactHeaders ?? [])].map((h) =>
+      h.toLowerCase()
+    )
+  );
+  const redactBody = new Set(
+    (config?.redactBody ?? []).map((field) => field.toLowerCase())
+  );
+
+  return {
+    begin(method, url) {
+      const requestId = randomHex(8);
+      const startedAt = Date.now();
+      let ended = false;
+
+      // Logging never fails a request, and nothing is logged once it has ended
+      function emit(event: EventFields) {
+        if (!config || ended) return;
+        try {
+          config.log({
+            requestId,
+            method,
+            url,
+            timestamp: Date.now(),
+            ...event,
+          } as LogEvent);
+        } catch {}
+      }
+      const duration = () => Date.now() - startedAt;
+
+      return {
+        requestId,
+
+        start(headers, body) {
+          if (!config) return;
+
+          const logged: Record<string, string> = {};
+          headers.forEach((v, k) => {
+            logged[k] = redactHeaders.has(k) ? REDACTED : v;
+          });
+
+          emit({
+            type: "start",
+            headers: logged,
+            body:
+              body == null || isNativeBody(body)
+                ? undefined
+                : redactValue(body, redactBody),
+          });
+        },
+
+        retry({ attempt, delay, response, error }) {
+          emit({
+            type: "retry",
+            attempt,
+            delay,
+            status: response?.status,
+            error,
+            duration: duration(),
+          });
+        },
+
+        redirect(res, location, attempts) {
+          emit({
+            type: "redirect",
+            status: res.status,
+            location,
+            duration: duration(),
+            attempts,
+          });
+          ended = true;
+        },
+
+        response(res, attempts) {
+          emit({
+            type: "response",
+            status: res.status,
+            duration: duration(),
+            attempts,
+          });
+          ended = true;
+        },
+
+        error(error, attempts, res) {
+          if (!config) return;
+
+          emit({
+            type: "error",
+            reason: error === undefined && res ? "http" : errorReason(error),
+            message:
+              error instanceof Error
+                ? error.message
+                : res
+                ? `HTTP ${res.status}: ${res.statusText}`
+                : String(error),
+            status: res?.status,
+            error: redactError(error, redactBody),
+            duration: duration(),
+            attempts,
+          });
+          ended = true;
+        },
+      };
+    },
+  };
+}
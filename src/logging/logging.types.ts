@@ -0,0 +1,110 @@
+import type { ErrorReason } from "../errors/errors.types.js";
+
+interface BaseLogEvent {
+  /** Generated per request and shared by all of its events */
+  requestId: string;
+  method: string;
+  url: string;
+  /** When the event happened, in ms since epoch */
+  timestamp: number;
+}
+
+/**
+ * The request is about to be sent.
+ */
+export interface StartLogEvent extends BaseLogEvent {
+  type: "start";
+  /** Request headers, with credentials redacted */
+  headers: Record<string, string>;
+  /** Plain-object and array bodies, with `redactBody` fields redacted */
+  body?: unknown;
+}
+
+/**
+ * An attempt failed and is retried after `delay`.
+ */
+export interface RetryLogEvent extends BaseLogEvent {
+  type: "retry";
+  /** The attempt that failed, starting at 1 */
+  attempt: number;
+  /** Time in ms before the next attempt */
+  delay: number;
+  /** Status of the failed attempt, missing for network errors */
+  status?: number;
+  error?: unknown;
+  duration: number;
+}
+
+/**
+ * The request completed successfully.
+ */
+export interface ResponseLogEvent extends BaseLogEvent {
+  type: "response";
+  status: number;
+  /** Time in ms from start until the body was read */
+  duration: number;
+  /** `0` when served from the cache */
+  attempts: number;
+}
+
+/**
+ * The server answered with a redirect that is handled by the client.
+ */
+export interface RedirectLogEvent extends BaseLogEvent {
+  type: "redirect";
+  status: number;
+  location: string;
+  duration: number;
+  attempts: number;
+}
+
+/**
+ * The request failed, `reason` is `"http"` for error statuses.
+ */
+export interface ErrorLogEvent extends BaseLogEvent {
+  type: "error";
+  reason: ErrorReason | "http" | "unknown";
+  message: string;
+  /** Missing when no response arrived */
+  status?: number;
+  /** The `data` of validation errors has `redactBody` fields redacted */
+  error?: unknown;
+  duration: number;
+  attempts: number;
+}
+
+/**
+ * Every request emits `start`, any number of `retry` events, and ends with
+ * exactly one `response`, `redirect` or `error`. Bodies that fail validation
+ * are never sent, and only emit `error`.
+ */
+export type LogEvent =
+  | StartLogEvent
+  | RetryLogEvent
+  | ResponseLogEvent
+  | RedirectLogEvent
+  | ErrorLogEvent;
+
+export interface LoggerConfig {
+  log: (event: LogEvent) => void;
+  /**
+   * Header values replaced with `"[REDACTED]"`, on top of
+   * `Authorization`, `Proxy-Authorization`, `Cookie` and `Set-Cookie`.
+   */
+  redactHeaders?: string[];
+  /**
+   * Body fields replaced with `"[REDACTED]"` at any depth, e.g. `["password", "token"]`.
+   */
+  redactBody?: string[];
+}
+
+/**
+ * A function receives every event, e.g. `(event) => logger.info(event)`.
+ */
+export type LoggerOption = LoggerConfig["log"] | LoggerConfig;
+
+/**
+ * `true` sends a new W3C `traceparent` for every request. A function can
+ * return the active trace context instead, a new one is sent when it returns nothing.
+ */
+export type TraceparentOption = boolean | (() => string | null | undefined);
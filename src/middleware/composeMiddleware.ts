@@ -0,0 +1,27 @@
+import type { Middleware, RequestContext } from "../types.js";
+
+/**
+ * Composes middleware into a single dispatcher, in array order, ending with `final`.
+ */
+function composeMiddleware(
+  middleware: Middleware[],
+  final: (ctx: RequestContext) => Promise<Response>
+): (ctx: RequestContext) => Promise<Response> {
+  return (ctx) => {
+    let index = -1;
+
+    async function dispatch(i: number): Promise<Response> {
+      if (i <= index) throw new Error("next() called multiple times");
+      index = i;
+
+      const fn = middleware[i];
+      if (!fn) return final(ctx);
+
+      return fn(ctx, () => dispatch(i + 1));
+    }
+
+    return dispatch(0);
+  };
+}
+
+export { composeMiddleware };
@@ -0,0 +1,12 @@
+import { RequestContext } from "../types.js";
+
+/**
+ * Koa-style middleware wrapped around every network call.
+ * - Replace or mutate `ctx.request` before calling `next()` to rewrite the URL, headers or body
+ * - Return a `Response` without calling `next()` to short-circuit the request
+ * - Inspect or replace the `Response` returned by `next()` before it is parsed
+ */
+export type Middleware = (
+  ctx: RequestContext,
+  next: () => Promise<Response>
+) => Response | Promise<Response>;
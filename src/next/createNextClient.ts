@@ -0,0 +1,50 @@
+import { createFetchClient } from "../createApiSingleton.js";
+import type { FetchClientConfig, FetchClientFor } from "../types.js";
+import { forwardSetCookies, nextFetchOptions } from "./nextMiddleware.js";
+import type { NextFetchClientConfig, NextModules } from "./next.types.js";
+
+async function loadNextModules(): Promise<NextModules> {
+  const [headers, navigation] = await Promise.all([
+    import("next/headers.js"),
+    import("next/navigation.js"),
+  ]);
+  return {
+    cookies: headers.cookies as NextModules["cookies"],
+    redirect: navigation.redirect,
+  };
+}
+
+/**
+ * `createFetchClient` wired to Next.js:
+ * - The cookie store is resolved per request with `cookies()`
+ * - Server redirects call `redirect()`, unless `redirects.onServerRedirect` is set
+ * - `Set-Cookie` from backend responses is forwarded to the browser
+ * - `next: { revalidate, tags }` is passed to Next's `fetch`
+ */
+function createNextFetchClient<
+  C extends NextFetchClientConfig = NextFetchClientConfig
+>(config: C = {} as C): FetchClientFor<C> {
+  const {
+    loadNext = loadNextModules,
+    forwardCookies = true,
+    ...clientConfig
+  } = config;
+
+  return createFetchClient({
+    ...clientConfig,
+    cookies: clientConfig.cookies ?? (async () => (await loadNext()).cookies()),
+    redirects: {
+      ...clientConfig.redirects,
+      onServerRedirect:
+        clientConfig.redirects?.onServerRedirect ??
+        (async ({ location }) => (await loadNext()).redirect(location)),
+    },
+    middleware: [
+      nextFetchOptions,
+      ...(forwardCookies ? [forwardSetCookies(loadNext)] : []),
+      ...(clientConfig.middleware ?? []),
+    ],
+  } as FetchClientConfig) as FetchClientFor<C>;
+}
+
+export { createNextFetchClient as createFetchClient };
@@ -0,0 +1,4 @@
+export { createFetchClient } from "./createNextClient.js";
+export { runInRequestScope } from "../scope/index.js";
+export * from "./nextMiddleware.js";
+export * from "./next.types.js";
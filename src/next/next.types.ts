@@ -0,0 +1,50 @@
+import type { CookieReader, FetchClientConfig } from "../types.js";
+import type { SetCookie } from "../utils/index.js";
+
+/**
+ * Next's `cookies()` store, `set` only works in Route Handlers and Server Actions.
+ */
+export interface NextCookieStore extends CookieReader {
+  set(cookie: SetCookie): unknown;
+}
+
+/**
+ * The parts of `next/headers` and `next/navigation` used by the adapter.
+ */
+export interface NextModules {
+  cookies(): NextCookieStore | Promise<NextCookieStore>;
+  redirect(url: string): never;
+}
+
+export type NextLoader = () => NextModules | Promise<NextModules>;
+
+/**
+ * Next's data cache options, passed to its `fetch`.
+ */
+export interface NextFetchOptions {
+  /** Seconds to cache the response for, `false` caches indefinitely */
+  revalidate?: number | false;
+  /** Tags for `revalidateTag()` */
+  tags?: string[];
+}
+
+export interface NextFetchClientConfig extends FetchClientConfig {
+  /**
+   * Loads Next's `cookies()` and `redirect()`, only called on the server.
+   * @default imports `next/headers` and `next/navigation`
+   */
+  loadNext?: NextLoader;
+  /**
+   * Forward `Set-Cookie` headers from backend responses to the browser.
+   * Only possible in Route Handlers and Server Actions, ignored elsewhere.
+   * @default true
+   */
+  forwardCookies?: boolean;
+}
+
+declare module "../types.js" {
+  interface RequestOptions<TBody, TData> {
+    /** Next's data cache options (`revalidate`, `tags`), requires `unified-auth-fetch/next` */
+    next?: NextFetchOptions;
+  }
+}
@@ -0,0 +1,38 @@
+import type { Middleware } from "../types.js";
+import { parseSetCookie } from "../utils/index.js";
+import type { NextLoader } from "./next.types.js";
+
+/**
+ * Hands the request's `next` options to Next's `fetch`, which reads them from the `Request`.
+ */
+export const nextFetchOptions: Middleware = (ctx, next) => {
+  if (ctx.options.next) {
+    Object.assign(ctx.request, { next: ctx.options.next });
+  }
+  return next();
+};
+
+/**
+ * Writes `Set-Cookie` headers from backend responses into Next's cookie store.
+ */
+export function forwardSetCookies(loadNext: NextLoader): Middleware {
+  return async (ctx, next) => {
+    const res = await next();
+    if (!ctx.isServer) return res;
+
+    const cookies = res.headers
+      .getSetCookie()
+      .map(parseSetCookie)
+      .filter((c) => c !== undefined);
+    if (!cookies.length) return res;
+
+    try {
+      const store = await (await loadNext()).cookies();
+      for (const cookie of cookies) store.set(cookie);
+    } catch {
+      // There is no cookie store outside a request, and Server Components can't set cookies
+    }
+
+    return res;
+  };
+}
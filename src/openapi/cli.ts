@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+import { writeFile } from "node:fs/promises";
+import { basename } from "node:path";
+import { parseArgs } from "node:util";
+import { generateRoutes } from "./generateRoutes.js";
+import { loadDocument } from "./loadDocument.js";
+
+const usage = `Usage: unified-auth-fetch-openapi <spec.json|spec.yaml> [options]
+
+Options:
+  -o, --output <file>  Write the module to a file instead of stdout
+  -n, --name <type>    Name of the route map type (default: ApiRoutes)
+      --no-schemas     Inline component schemas instead of exporting them
+  -h, --help           Show this message`;
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: "string", short: "o" },
+      name: { type: "string", short: "n" },
+      "no-schemas": { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const [input] = positionals;
+  if (values.help || !input) {
+    console.log(usage);
+    process.exit(input || values.help ? 0 : 1);
+  }
+
+  const doc = await loadDocument(input);
+  const output = generateRoutes(doc, {
+    typeName: values.name,
+    schemas: !values["no-schemas"],
+    source: basename(input),
+  });
+
+  if (values.output) await writeFile(values.output, output);
+  else process.stdout.write(output);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,353 @@
+import type {
+  GenerateOptions,
+  MediaType,
+  OpenApiDocument,
+  Operation,
+  Parameter,
+  Reference,
+  RequestBody,
+  ResponseObject,
+  SchemaObject,
+} from "./openapi.types.js";
+
+const methods = ["get", "post", "put", "patch", "delete"] as const;
+
+const schemaRefPrefix = "#/components/schemas/";
+
+// Globals a component type would shadow, including the ones generated types use
+const reservedNames = [
+  "Array",
+  "Blob",
+  "Boolean",
+  "Date",
+  "Error",
+  "File",
+  "FormData",
+  "Headers",
+  "Map",
+  "Number",
+  "Object",
+  "Promise",
+  "Record",
+  "Request",
+  "Response",
+  "Set",
+  "String",
+  "URL",
+];
+
+function isReference(value: unknown): value is Reference {
+  return typeof value === "object" && value !== null && "$ref" in value;
+}
+
+function quoteKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function toTypeName(name: string): string {
+  const pascal = name
+    .replace(/[^A-Za-z0-9]+(.)?/g, (_, c: string | undefined) =>
+      c ? c.toUpperCase() : ""
+    )
+    .replace(/^./, (c) => c.toUpperCase());
+  return /^[A-Za-z_]/.test(pascal) ? pascal : `_${pascal}`;
+}
+
+/**
+ * `/users/{id}` → `/users/:id`, templates inside a segment are kept as they are,
+ * e.g. `/files/{name}.{ext}`.
+ */
+function toPathTemplate(path: string): string {
+  return path.replace(/\/\{([^{}/]+)\}(?=\/|$)/g, "/:$1");
+}
+
+/**
+ * Whether a type has a top-level `|` or `&`, and needs parentheses in arrays and intersections.
+ */
+function isCompound(type: string): boolean {
+  let depth = 0;
+  for (const char of type) {
+    if ("{([<".includes(char)) depth++;
+    else if ("})]>".includes(char)) depth--;
+    else if (depth === 0 && (char === "|" || char === "&")) return true;
+  }
+  return false;
+}
+
+function union(types: string[]): string {
+  const unique = [...new Set(types)];
+  return unique.length ? unique.join(" | ") : "unknown";
+}
+
+/**
+ * Generates a TypeScript module with a route map type (see `RouteMap`) for an OpenAPI document.
+ */
+export function generateRoutes(
+  doc: OpenApiDocument,
+  options: GenerateOptions = {}
+): string {
+  const { typeName = "ApiRoutes", schemas = true, source } = options;
+
+  const componentNames = new Map<string, string>();
+  const taken = new Set([...reservedNames, typeName]);
+  for (const name of Object.keys(doc.components?.schemas ?? {})) {
+    let componentName = toTypeName(name);
+    while (taken.has(componentName)) componentName += "_";
+    taken.add(componentName);
+    componentNames.set(name, componentName);
+  }
+
+  // --------------------------------------------------------------------------
+  // $ref resolution
+  // --------------------------------------------------------------------------
+  function resolvePointer(ref: string): unknown {
+    if (!ref.startsWith("#/")) {
+      throw new Error(`Only local references are supported, got "${ref}"`);
+    }
+
+    let node: any = doc;
+    for (const segment of ref.slice(2).split("/")) {
+      node = node?.[segment.replace(/~1/g, "/").replace(/~0/g, "~")];
+    }
+    if (node === undefined) throw new Error(`Unresolved reference "${ref}"`);
+    return node;
+  }
+
+  function resolve<T>(value: T | Reference): T {
+    const seen = new Set<string>();
+    while (isReference(value)) {
+      if (seen.has(value.$ref)) {
+        throw new Error(`Circular reference "${value.$ref}"`);
+      }
+      seen.add(value.$ref);
+      value = resolvePointer(value.$ref) as T | Reference;
+    }
+    return value;
+  }
+
+  // --------------------------------------------------------------------------
+  // Schemas
+  // --------------------------------------------------------------------------
+  function schemaType(
+    schema: SchemaObject | Reference | undefined,
+    indent: string,
+    inlining: Set<string> = new Set()
+  ): string {
+    if (!schema) return "unknown";
+
+    if (isReference(schema)) {
+      const component = schema.$ref.startsWith(schemaRefPrefix)
+        ? schema.$ref.slice(schemaRefPrefix.length)
+        : undefined;
+      if (schemas && component && componentNames.has(component)) {
+        return componentNames.get(component)!;
+      }
+      // Recursive schemas can't be inlined
+      if (inlining.has(schema.$ref)) return "unknown";
+
+      return schemaType(
+        resolve(schema),
+        indent,
+        new Set([...inlining, schema.$ref])
+      );
+    }
+
+    const type = baseType(schema, indent, inlining);
+    return schema.nullable && type !== "unknown" ? `${type} | null` : type;
+  }
+
+  function baseType(
+    schema: SchemaObject,
+    indent: string,
+    inlining: Set<string>
+  ): string {
+    const wrap = (type: string) => (isCompound(type) ? `(${type})` : type);
+    const nested = (s?: SchemaObject | Reference) =>
+      schemaType(s, indent, inlining);
+
+    if (schema.const !== undefined) return JSON.stringify(schema.const);
+    if (schema.enum) return union(schema.enum.map((v) => JSON.stringify(v)));
+    if (schema.allOf) {
+      return schema.allOf.map((s) => wrap(nested(s))).join(" & ");
+    }
+    if (schema.oneOf) return union(schema.oneOf.map(nested));
+    if (schema.anyOf) return union(schema.anyOf.map(nested));
+
+    if (Array.isArray(schema.type)) {
+      return union(
+        schema.type.map((type) =>
+          baseType({ ...schema, type }, indent, inlining)
+        )
+      );
+    }
+
+    switch (schema.type) {
+      case "string":
+        return schema.format === "binary" ? "Blob" : "string";
+      case "integer":
+      case "number":
+        return "number";
+      case "boolean":
+        return "boolean";
+      case "null":
+        return "null";
+      case "array":
+        return `${wrap(nested(schema.items))}[]`;
+      case "object":
+      case undefined:
+        if (schema.properties || schema.additionalProperties !== undefined) {
+          return objectType(schema, indent, inlining);
+        }
+        return schema.type === "object" ? "Record<string, unknown>" : "unknown";
+      default:
+        return "unknown";
+    }
+  }
+
+  function objectType(
+    schema: SchemaObject,
+    indent: string,
+    inlining: Set<string>
+  ): string {
+    const inner = indent + "  ";
+    const required = new Set(schema.required ?? []);
+    const lines = Object.entries(schema.properties ?? {}).map(
+      ([key, prop]) =>
+        `${inner}${quoteKey(key)}${required.has(key) ? "" : "?"}: ${schemaType(
+          prop,
+          inner,
+          inlining
+        )};`
+    );
+
+    const extra = schema.additionalProperties;
+    if (extra) {
+      const type =
+        extra === true ? "unknown" : schemaType(extra, inner, inlining);
+      lines.push(`${inner}[key: string]: ${type};`);
+    }
+
+    return lines.length ? `{\n${lines.join("\n")}\n${indent}}` : "{}";
+  }
+
+  // --------------------------------------------------------------------------
+  // Operations
+  // --------------------------------------------------------------------------
+  function contentType(
+    content: Record<string, MediaType> | undefined,
+    indent: string
+  ): string {
+    const entries = Object.entries(content ?? {});
+    if (!entries.length) return "undefined";
+
+    const json = entries.find(([media]) => /[/+]json\b/.test(media));
+    if (json) return schemaType(json[1].schema, indent);
+
+    const [media] = entries[0];
+    if (media === "multipart/form-data") return "FormData";
+    if (media === "application/x-www-form-urlencoded") return "URLSearchParams";
+    if (media.startsWith("text/")) return "string";
+    return "Blob";
+  }
+
+  function paramsType(params: Parameter[], indent: string): string {
+    const inner = indent + "  ";
+    const lines = params.map(
+      (p) =>
+        `${inner}${quoteKey(p.name)}${
+          p.required || p.in === "path" ? "" : "?"
+        }: ${schemaType(p.schema, inner)};`
+    );
+    return `{\n${lines.join("\n")}\n${indent}}`;
+  }
+
+  function operationType(
+    operation: Operation,
+    pathParams: (Parameter | Reference)[],
+    indent: string
+  ): string {
+    const inner = indent + "  ";
+    const fields: string[] = [];
+
+    // Operation parameters override path-level ones with the same name and location
+    const params = new Map<string, Parameter>();
+    for (const param of [...pathParams, ...(operation.parameters ?? [])]) {
+      const resolved = resolve(param);
+      params.set(`${resolved.in}:${resolved.name}`, resolved);
+    }
+    const byLocation = (location: Parameter["in"]) =>
+      [...params.values()].filter((p) => p.in === location);
+
+    const path = byLocation("path");
+    if (path.length) fields.push(`params: ${paramsType(path, inner)};`);
+
+    const query = byLocation("query");
+    if (query.length) fields.push(`query: ${paramsType(query, inner)};`);
+
+    if (operation.requestBody) {
+      const body: RequestBody = resolve(operation.requestBody);
+      const optional = body.required ? "" : "?";
+      fields.push(`body${optional}: ${contentType(body.content, inner)};`);
+    }
+
+    const success: string[] = [];
+    const error: string[] = [];
+    for (const [code, response] of Object.entries(operation.responses ?? {})) {
+      const { content }: ResponseObject = resolve(response);
+      if (/^2/.test(code)) success.push(contentType(content, inner));
+      else if (/^[45]/.test(code) || code === "default") {
+        error.push(contentType(content, inner));
+      }
+    }
+    if (success.length) fields.push(`response: ${union(success)};`);
+    if (error.length) fields.push(`error: ${union(error)};`);
+
+    if (!fields.length) return "{}";
+    return `{\n${fields.map((f) => inner + f).join("\n")}\n${indent}}`;
+  }
+
+  // --------------------------------------------------------------------------
+  // Module
+  // --------------------------------------------------------------------------
+  const generatedFrom = source ? ` from ${source}` : "";
+  const out: string[] = [
+    `// Generated${generatedFrom} by unified-auth-fetch-openapi, do not edit.`,
+    "",
+  ];
+
+  if (schemas) {
+    for (const [name, schema] of Object.entries(
+      doc.components?.schemas ?? {}
+    )) {
+      out.push(
+        `export type ${componentNames.get(name)} = ${schemaType(schema, "")};`,
+        ""
+      );
+    }
+  }
+
+  out.push(`export type ${typeName} = {`);
+  for (const [path, item] of Object.entries(doc.paths ?? {})) {
+    const operations = methods.filter((m) => item[m]);
+    if (!operations.length) continue;
+
+    out.push(`  ${JSON.stringify(toPathTemplate(path))}: {`);
+    for (const method of operations) {
+      const operation = item[method]!;
+      if (operation.summary) {
+        out.push(`    /** ${operation.summary.replace(/\*\//g, "*\\/")} */`);
+      }
+      out.push(
+        `    ${method.toUpperCase()}: ${operationType(
+          operation,
+          item.parameters ?? [],
+          "    "
+        )};`
+      );
+    }
+    out.push("  };");
+  }
+  out.push("};", "");
+
+  return out.join("\n");
+}
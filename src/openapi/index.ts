@@ -0,0 +1,3 @@
+export * from "./generateRoutes.js";
+export * from "./loadDocument.js";
+export * from "./openapi.types.js";
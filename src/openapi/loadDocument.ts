@@ -0,0 +1,30 @@
+import { readFile } from "node:fs/promises";
+import type { OpenApiDocument } from "./openapi.types.js";
+
+/**
+ * Reads an OpenAPI document from a JSON or YAML file.
+ * YAML needs the optional `yaml` package.
+ */
+export async function loadDocument(file: string): Promise<OpenApiDocument> {
+  const text = await readFile(file, "utf8");
+
+  let doc: unknown;
+  if (/\.ya?ml$/i.test(file) || !text.trimStart().startsWith("{")) {
+    const yaml = await import("yaml").catch(() => {
+      throw new Error(`Reading "${file}" requires the "yaml" package`);
+    });
+    doc = yaml.parse(text);
+  } else {
+    doc = JSON.parse(text);
+  }
+
+  if (
+    typeof doc !== "object" ||
+    doc === null ||
+    !String((doc as OpenApiDocument).openapi).startsWith("3.")
+  ) {
+    throw new Error(`"${file}" is not an OpenAPI 3 document`);
+  }
+
+  return doc as OpenApiDocument;
+}
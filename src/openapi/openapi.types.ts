@@ -0,0 +1,87 @@
+/**
+ * The parts of an OpenAPI 3.0 / 3.1 document used to generate route types.
+ */
+export interface OpenApiDocument {
+  openapi: string;
+  paths?: Record<string, PathItem>;
+  components?: {
+    schemas?: Record<string, SchemaObject | Reference>;
+    parameters?: Record<string, Parameter | Reference>;
+    requestBodies?: Record<string, RequestBody | Reference>;
+    responses?: Record<string, ResponseObject | Reference>;
+  };
+}
+
+export interface Reference {
+  $ref: string;
+}
+
+export interface PathItem {
+  parameters?: (Parameter | Reference)[];
+  get?: Operation;
+  post?: Operation;
+  put?: Operation;
+  patch?: Operation;
+  delete?: Operation;
+}
+
+export interface Operation {
+  operationId?: string;
+  summary?: string;
+  parameters?: (Parameter | Reference)[];
+  requestBody?: RequestBody | Reference;
+  responses?: Record<string, ResponseObject | Reference>;
+}
+
+export interface Parameter {
+  name: string;
+  in: "path" | "query" | "header" | "cookie";
+  required?: boolean;
+  schema?: SchemaObject | Reference;
+}
+
+export interface RequestBody {
+  required?: boolean;
+  content?: Record<string, MediaType>;
+}
+
+export interface ResponseObject {
+  description?: string;
+  content?: Record<string, MediaType>;
+}
+
+export interface MediaType {
+  schema?: SchemaObject | Reference;
+}
+
+export interface SchemaObject {
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  const?: unknown;
+  nullable?: boolean;
+  items?: SchemaObject | Reference;
+  properties?: Record<string, SchemaObject | Reference>;
+  required?: string[];
+  additionalProperties?: boolean | SchemaObject | Reference;
+  allOf?: (SchemaObject | Reference)[];
+  oneOf?: (SchemaObject | Reference)[];
+  anyOf?: (SchemaObject | Reference)[];
+  description?: string;
+}
+
+export interface GenerateOptions {
+  /**
+   * Name of the exported route map type.
+   * @default "ApiRoutes"
+   */
+  typeName?: string;
+  /**
+   * Export `components.schemas` as named types.
+   * When `false`, references are inlined and recursive ones become `unknown`.
+   * @default true
+   */
+  schemas?: boolean;
+  /** Shown in the generated file's header */
+  source?: string;
+}
@@ -0,0 +1,162 @@
+import type {
+  CollectOptions,
+  Page,
+  PageRequest,
+  PageSelector,
+  PaginateOptions,
+  Paginator,
+} from "./paginate.types.js";
+
+interface FetchedPage {
+  data: unknown;
+  response: Response;
+  url: string;
+}
+
+function select<T>(data: unknown, selector: PageSelector<T>): T {
+  if (typeof selector === "function") return selector(data);
+
+  let value: any = data;
+  for (const key of selector.split(".")) value = value?.[key];
+  return value;
+}
+
+/**
+ * Finds the `rel="next"` URL in a `Link` header.
+ */
+function parseNextLink(header: string | null): string | undefined {
+  if (!header) return undefined;
+
+  for (const link of header.split(/,(?=\s*<)/)) {
+    const match = /^\s*<([^>]*)>(.*)$/.exec(link);
+    if (!match) continue;
+
+    const rel = /;\s*rel\s*=\s*(?:"([^"]*)"|([^\s;]+))/i.exec(match[2]);
+    const rels = (rel?.[1] ?? rel?.[2] ?? "").toLowerCase().split(/\s+/);
+    if (rels.includes("next")) return match[1];
+  }
+  return undefined;
+}
+
+function getItems<T>(data: unknown, selector?: PageSelector<T[]>): T[] {
+  if (selector) return select(data, selector) ?? [];
+  if (data == null) return [];
+  if (Array.isArray(data)) return data;
+
+  throw new TypeError(
+    "Paginated response is not an array, set `items` to where the items are"
+  );
+}
+
+function nextRequest<T>(
+  page: Page<T>,
+  strategy: PaginateOptions<T>["strategy"]
+): PageRequest | null | undefined {
+  if (!("type" in strategy)) {
+    return strategy.getNextRequest(page as Page<unknown>);
+  }
+
+  const { request } = page;
+  switch (strategy.type) {
+    case "cursor": {
+      const cursor = select(page.data, strategy.cursor);
+      if (cursor == null || cursor === "") return null;
+      return {
+        path: request.path,
+        params: { ...request.params, [strategy.param ?? "cursor"]: cursor },
+      };
+    }
+    case "offset": {
+      const { limit, offsetParam = "offset", limitParam = "limit" } = strategy;
+      if (page.items.length < limit) return null;
+
+      const offset = Number(request.params?.[offsetParam] ?? 0);
+      return {
+        path: request.path,
+        params: {
+          ...request.params,
+          [offsetParam]: offset + page.items.length,
+          [limitParam]: limit,
+        },
+      };
+    }
+    case "link": {
+      const next = parseNextLink(page.response.headers.get("link"));
+      // The URL already has its query params
+      return next ? { path: new URL(next, page.url).toString() } : null;
+    }
+  }
+}
+
+/**
+ * Fetches pages with `fetchPage` until the strategy has no next request.
+ * Stops when a strategy asks for the same page again.
+ */
+async function* readPages<T>(
+  fetchPage: (request: PageRequest) => Promise<FetchedPage>,
+  first: PageRequest,
+  options: Pick<PaginateOptions<T>, "strategy" | "items">
+): AsyncGenerator<Page<T>, void, undefined> {
+  const { strategy, items } = options;
+
+  let request: PageRequest | null | undefined = first;
+  if ("type" in strategy && strategy.type === "offset") {
+    const {
+      start = 0,
+      offsetParam = "offset",
+      limitParam = "limit",
+    } = strategy;
+    request = {
+      ...first,
+      params: {
+        ...first.params,
+        [offsetParam]: start,
+        [limitParam]: strategy.limit,
+      },
+    };
+  }
+
+  const seen = new Set<string>();
+  for (let index = 0; request; index++) {
+    const key = JSON.stringify(request);
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    const fetched = await fetchPage(request);
+    const page: Page<T> = {
+      ...fetched,
+      items: getItems(fetched.data, items),
+      request,
+      index,
+    };
+
+    yield page;
+    request = nextRequest(page, strategy);
+  }
+}
+
+/**
+ * Creates a paginator over the pages from `pages`, which is called once per iteration.
+ */
+function createPaginator<T>(pages: () => AsyncIterable<Page<T>>): Paginator<T> {
+  async function* items() {
+    for await (const page of pages()) yield* page.items;
+  }
+
+  return {
+    [Symbol.asyncIterator]: items,
+    pages,
+    async collect({ max = Infinity }: CollectOptions = {}) {
+      const collected: T[] = [];
+      if (max <= 0) return collected;
+
+      for await (const item of items()) {
+        collected.push(item);
+        if (collected.length >= max) break;
+      }
+      return collected;
+    },
+  };
+}
+
+export { readPages, createPaginator, parseNextLink };
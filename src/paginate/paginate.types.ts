@@ -0,0 +1,100 @@
+import type { BodylessRequestOptions, QueryParams } from "../types.js";
+
+/**
+ * What to request for a page, absolute paths are sent as is.
+ */
+export interface PageRequest {
+  path: string;
+  params?: QueryParams;
+}
+
+export interface Page<T> {
+  items: T[];
+  /** The parsed response body */
+  data: unknown;
+  response: Response;
+  /** The page's URL, used to resolve relative `Link` URLs */
+  url: string;
+  request: PageRequest;
+  /** Starts at 0 */
+  index: number;
+}
+
+/**
+ * Reads a value from the response body: a dot path like `"meta.next"`, or a function.
+ */
+export type PageSelector<T> = string | ((data: unknown) => T);
+
+/**
+ * Sends the cursor from each page as a query param.
+ */
+export interface CursorStrategy {
+  type: "cursor";
+  /** The next cursor, pagination stops when it's missing or empty */
+  cursor: PageSelector<string | number | null | undefined>;
+  /** @default "cursor" */
+  param?: string;
+}
+
+/**
+ * Sends `offset` and `limit` query params, stopping at the first page shorter than `limit`.
+ */
+export interface OffsetStrategy {
+  type: "offset";
+  limit: number;
+  /** @default 0 */
+  start?: number;
+  /** @default "offset" */
+  offsetParam?: string;
+  /** @default "limit" */
+  limitParam?: string;
+}
+
+/**
+ * Follows the RFC 8288 (formerly RFC 5988) `Link: <url>; rel="next"` header.
+ */
+export interface LinkStrategy {
+  type: "link";
+}
+
+export interface CustomStrategy {
+  /** The next page to request, pagination stops on `null` or `undefined` */
+  getNextRequest(page: Page<unknown>): PageRequest | null | undefined;
+}
+
+export type PaginationStrategy =
+  | CursorStrategy
+  | OffsetStrategy
+  | LinkStrategy
+  | CustomStrategy;
+
+export interface PaginateOptions<T = unknown>
+  extends Omit<
+    BodylessRequestOptions<T>,
+    "responseType" | "schema" | "onError"
+  > {
+  strategy: PaginationStrategy;
+  /**
+   * The items in each page, the body itself by default when it's an array.
+   * @example items: "data"
+   */
+  items?: PageSelector<T[]>;
+}
+
+export interface CollectOptions {
+  /** Stops after this many items */
+  max?: number;
+}
+
+/**
+ * Iterates over items, fetching pages as needed.
+ */
+export interface Paginator<T> extends AsyncIterable<T> {
+  /** Iterates over whole pages instead of items */
+  pages(): AsyncIterable<Page<T>>;
+  collect(options?: CollectOptions): Promise<T[]>;
+}
+
+export interface PaginateMethod {
+  <T = unknown>(path: string, options: PaginateOptions<T>): Paginator<T>;
+}
@@ -0,0 +1,166 @@
+import { isServer } from "../utils/index.js";
+import type { ProgressCallback } from "./progress.types.js";
+
+export interface UploadTracker {
+  /** The body for one attempt, every attempt gets a fresh stream */
+  body(): BodyInit;
+  /** Whether `body()` is a stream, which needs `duplex: "half"` */
+  streamed: boolean;
+  /** Called once a response arrives, reports the upload when it couldn't be streamed */
+  complete(): void;
+}
+
+// Statuses that can't be constructed with a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+let requestStreams: boolean | undefined;
+
+/**
+ * Whether `fetch` accepts stream bodies, browsers other than Chromium don't.
+ */
+function supportsRequestStreams(): boolean {
+  if (requestStreams !== undefined) return requestStreams;
+
+  let duplexAccessed = false;
+  try {
+    const hasContentType = new Request("https://example.invalid", {
+      method: "POST",
+      body: new ReadableStream(),
+      get duplex() {
+        duplexAccessed = true;
+        return "half";
+      },
+    } as RequestInit).headers.has("content-type");
+    requestStreams = duplexAccessed && !hasContentType;
+  } catch {
+    requestStreams = false;
+  }
+
+  return requestStreams;
+}
+
+/**
+ * Only reads from `stream` when the consumer does, so progress follows what was actually sent or read.
+ */
+function countBytes(
+  stream: ReadableStream<Uint8Array>,
+  total: number | undefined,
+  onProgress: ProgressCallback
+): ReadableStream<Uint8Array> {
+  const reader = stream.getReader();
+  let loaded = 0;
+
+  return new ReadableStream<Uint8Array>(
+    {
+      async pull(controller) {
+        const { done, value } = await reader.read();
+        if (done) return controller.close();
+
+        loaded += value.byteLength;
+        controller.enqueue(value);
+        onProgress({
+          loaded,
+          total,
+          progress: total ? Math.min(loaded / total, 1) : undefined,
+        });
+      },
+      cancel: (reason) => reader.cancel(reason),
+    },
+    { highWaterMark: 0 }
+  );
+}
+
+function contentLength(headers: Headers): number | undefined {
+  const value = headers.get("content-length");
+  const length = Number(value);
+  return value !== null && Number.isInteger(length) && length >= 0
+    ? length
+    : undefined;
+}
+
+/**
+ * The body as a Blob, so it has a size and can be sent again on retries.
+ * Blobs (e.g. files) are used as they are, without reading them into memory.
+ */
+async function toBlob(body: BodyInit): Promise<Blob> {
+  if (body instanceof Blob) return body;
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return new Blob([body as BlobPart]);
+  }
+  // Strings, URLSearchParams and FormData get the content-type fetch would give them
+  return new Response(body).blob();
+}
+
+/**
+ * Reports upload progress by sending the body as a counting stream with its `Content-Length`.
+ * Sets the content-type the body would have been sent with (e.g. the multipart boundary).
+ * Browsers can't set `Content-Length` and Chromium only streams over HTTP/2,
+ * so they send the Blob and report once it's done.
+ */
+async function trackUpload(
+  body: BodyInit,
+  headers: Headers,
+  onProgress: ProgressCallback
+): Promise<UploadTracker> {
+  // Streams are sent once, their size is only known from the headers
+  if (body instanceof ReadableStream) {
+    const total = contentLength(headers);
+    return {
+      body: () => countBytes(body, total, onProgress),
+      streamed: true,
+      complete() {},
+    };
+  }
+
+  const blob = await toBlob(body);
+  if (!headers.has("content-type") && blob.type) {
+    headers.set("content-type", blob.type);
+  }
+  const total = blob.size;
+
+  if (!isServer() || !supportsRequestStreams()) {
+    return {
+      body: () => blob,
+      streamed: false,
+      complete: () => onProgress({ loaded: total, total, progress: 1 }),
+    };
+  }
+
+  // Otherwise streams go out chunked, which servers like S3 reject
+  headers.set("content-length", String(total));
+  return {
+    body: () => countBytes(blob.stream(), total, onProgress),
+    streamed: true,
+    complete() {},
+  };
+}
+
+/**
+ * Reports download progress as the body is read.
+ * `total` comes from `Content-Length`, unless the body is encoded (e.g. gzip)
+ * since it counts the encoded bytes.
+ */
+function trackDownload(res: Response, onProgress: ProgressCallback): Response {
+  if (!res.body || NULL_BODY_STATUSES.includes(res.status)) return res;
+
+  const encoding = res.headers.get("content-encoding");
+  const total =
+    !encoding || encoding === "identity"
+      ? contentLength(res.headers)
+      : undefined;
+
+  const tracked = new Response(countBytes(res.body, total, onProgress), {
+    status: res.status,
+    statusText: res.statusText,
+    headers: res.headers,
+  });
+  // Not settable through the constructor
+  Object.defineProperties(tracked, {
+    url: { value: res.url },
+    redirected: { value: res.redirected },
+  });
+
+  return tracked;
+}
+
+export { trackUpload, trackDownload };
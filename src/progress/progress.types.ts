@@ -0,0 +1,12 @@
+/**
+ * Bytes transferred so far for an upload or download.
+ */
+export interface TransferProgress {
+  loaded: number;
+  /** Missing when the size isn't known, e.g. without `Content-Length` */
+  total?: number;
+  /** `loaded / total` between 0 and 1, when `total` is known */
+  progress?: number;
+}
+
+export type ProgressCallback = (progress: TransferProgress) => void;
@@ -0,0 +1,38 @@
+import { createContext, createElement, useContext } from "react";
+import type { ReactNode } from "react";
+import type { HooksClient } from "./react.types.js";
+
+const FetchClientContext = createContext<HooksClient | null>(null);
+
+export interface FetchClientProviderProps {
+  client: HooksClient;
+  children?: ReactNode;
+}
+
+/**
+ * Provides the client used by `useFetch` and `useMutation`.
+ */
+export function FetchClientProvider({
+  client,
+  children,
+}: FetchClientProviderProps) {
+  return createElement(
+    FetchClientContext.Provider,
+    { value: client },
+    children
+  );
+}
+
+/**
+ * The client from the closest `FetchClientProvider`, or `client` when given.
+ */
+export function useFetchClient(client?: HooksClient): HooksClient {
+  const provided = useContext(FetchClientContext);
+  const resolved = client ?? provided;
+  if (!resolved) {
+    throw new Error(
+      "No fetch client, wrap the tree in a FetchClientProvider or pass `client`"
+    );
+  }
+  return resolved;
+}
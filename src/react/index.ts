@@ -0,0 +1,7 @@
+"use client";
+
+export { FetchClientProvider, useFetchClient } from "./FetchClientProvider.js";
+export type { FetchClientProviderProps } from "./FetchClientProvider.js";
+export { useFetch } from "./useFetch.js";
+export { useMutation } from "./useMutation.js";
+export * from "./react.types.js";
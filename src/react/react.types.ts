@@ -0,0 +1,91 @@
+import type {
+  BodylessRequestOptions,
+  FetchClient,
+  RequestOptions,
+  RouteMap,
+  SafeMethods,
+  SafeTypedFetchClient,
+  StandardError,
+  StandardRedirect,
+  StandardResponse,
+} from "../types.js";
+
+/**
+ * The safe methods the hooks send requests with.
+ */
+export type HooksMethods = Exclude<SafeMethods, "request">;
+
+/**
+ * Any client with safe methods, including typed and safe-only clients.
+ */
+export type HooksClient =
+  | Pick<FetchClient, HooksMethods>
+  | Pick<SafeTypedFetchClient<RouteMap>, HooksMethods>;
+
+/**
+ * A failed response, either an error or a redirect.
+ */
+export type FailedResponse<E = unknown> = StandardError<E> | StandardRedirect;
+
+export interface UseFetchOptions<T = unknown>
+  extends BodylessRequestOptions<T> {
+  /** Set to `false` to wait before fetching, e.g. until an id is known */
+  enabled?: boolean;
+  /** Data shown until the first response */
+  initialData?: T;
+  /** Overrides the provider's client */
+  client?: HooksClient;
+}
+
+export interface UseFetchResult<T, E = unknown> {
+  data: T | undefined;
+  error: FailedResponse<E> | undefined;
+  /** The last response */
+  response: StandardResponse<T, E> | undefined;
+  /** Fetching without data yet */
+  isLoading: boolean;
+  /** Fetching, including refetches */
+  isFetching: boolean;
+  /** Fetches again, aborting the request in flight */
+  refetch(): Promise<StandardResponse<T, E> | undefined>;
+  /** Replaces `data` locally, e.g. for optimistic updates */
+  setData(
+    update: T | undefined | ((data: T | undefined) => T | undefined)
+  ): void;
+}
+
+export interface UseMutationOptions<T, TBody, E, TContext>
+  extends Omit<RequestOptions<TBody, T>, "body" | "onError"> {
+  /**
+   * Runs before the request, the returned context is passed to the other callbacks.
+   * Apply optimistic updates here and return what's needed to roll them back.
+   */
+  onMutate?(body: TBody): TContext | Promise<TContext>;
+  onSuccess?(data: T, body: TBody, context: TContext | undefined): unknown;
+  onError?(
+    error: FailedResponse<E>,
+    body: TBody,
+    context: TContext | undefined
+  ): unknown;
+  onSettled?(
+    response: StandardResponse<T, E> | undefined,
+    body: TBody,
+    context: TContext | undefined
+  ): unknown;
+  /** Overrides the provider's client */
+  client?: HooksClient;
+}
+
+export interface UseMutationResult<T, TBody, E = unknown> {
+  /** Sends the request, request options are merged over the hook's */
+  mutate(
+    body?: TBody,
+    options?: Omit<RequestOptions<TBody, T>, "body">
+  ): Promise<StandardResponse<T, E> | undefined>;
+  data: T | undefined;
+  error: FailedResponse<E> | undefined;
+  response: StandardResponse<T, E> | undefined;
+  isLoading: boolean;
+  /** Clears the result and aborts the request in flight */
+  reset(): void;
+}
@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { FetchClient, StandardResponse } from "../types.js";
+import { anySignal } from "../utils/index.js";
+import { useFetchClient } from "./FetchClientProvider.js";
+import type { UseFetchOptions, UseFetchResult } from "./react.types.js";
+
+interface FetchState<T, E> {
+  data: T | undefined;
+  response: StandardResponse<T, E> | undefined;
+  isFetching: boolean;
+  /** Thrown by the client (not a failed response), rethrown to error boundaries */
+  thrown?: { error: unknown };
+}
+
+/**
+ * Fetches `path` with `safeGet` and refetches when the path, `params` or `pathParams` change.
+ * Pass `null` as the path to skip fetching. The request is aborted on unmount.
+ */
+export function useFetch<T = unknown, E = unknown>(
+  path: string | null,
+  options: UseFetchOptions<T> = {}
+): UseFetchResult<T, E> {
+  const {
+    enabled = true,
+    initialData,
+    client: clientOption,
+    ...requestOptions
+  } = options;
+  const client = useFetchClient(clientOption);
+
+  const [state, setState] = useState<FetchState<T, E>>(() => ({
+    data: initialData,
+    response: undefined,
+    isFetching: enabled && path !== null,
+  }));
+  if (state.thrown) throw state.thrown.error;
+
+  // Other options don't trigger a refetch, the latest ones are used
+  const latest = useRef({ path, client, requestOptions });
+  latest.current = { path, client, requestOptions };
+
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const key =
+    enabled && path !== null
+      ? JSON.stringify([path, requestOptions.params, requestOptions.pathParams])
+      : null;
+
+  const run = useCallback(async () => {
+    const { path, client, requestOptions } = latest.current;
+    if (path === null) return undefined;
+
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setState((s) => (s.isFetching ? s : { ...s, isFetching: true }));
+
+    let response: StandardResponse<T, E>;
+    try {
+      // Typed clients are sent through untyped, the path comes from the caller
+      const untyped = client as Pick<FetchClient, "safeGet">;
+      response = (await untyped.safeGet(path, {
+        ...requestOptions,
+        signal: anySignal(controller.signal, requestOptions.signal),
+      })) as StandardResponse<T, E>;
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        setState((s) => ({ ...s, isFetching: false, thrown: { error } }));
+      }
+      return undefined;
+    }
+
+    // Superseded by another request, or unmounted
+    if (controller.signal.aborted) return undefined;
+    controllerRef.current = null;
+
+    setState((s) => ({
+      data: response.ok ? response.data : s.data,
+      response,
+      isFetching: false,
+    }));
+    return response;
+  }, []);
+
+  useEffect(() => {
+    if (key === null) {
+      setState((s) => (s.isFetching ? { ...s, isFetching: false } : s));
+      return;
+    }
+
+    void run();
+    return () => controllerRef.current?.abort();
+  }, [key, run]);
+
+  const setData = useCallback<UseFetchResult<T, E>["setData"]>((update) => {
+    setState((s) => ({
+      ...s,
+      data:
+        typeof update === "function"
+          ? (update as (data: T | undefined) => T | undefined)(s.data)
+          : update,
+    }));
+  }, []);
+
+  const { data, response, isFetching } = state;
+  return {
+    data,
+    error: response && !response.ok ? response : undefined,
+    response,
+    isLoading: isFetching && data === undefined,
+    isFetching,
+    refetch: run,
+    setData,
+  };
+}
@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  FetchClient,
+  RequestOptions,
+  StandardResponse,
+  UnsafeMethods,
+} from "../types.js";
+import { anySignal } from "../utils/index.js";
+import { useFetchClient } from "./FetchClientProvider.js";
+import type {
+  HooksMethods,
+  UseMutationOptions,
+  UseMutationResult,
+} from "./react.types.js";
+
+type MutationMethod = Exclude<UnsafeMethods, "get">;
+
+const safeMethods: Record<MutationMethod, HooksMethods> = {
+  post: "safePost",
+  put: "safePut",
+  patch: "safePatch",
+  delete: "safeDelete",
+};
+
+interface MutationState<T, E> {
+  response: StandardResponse<T, E> | undefined;
+  isLoading: boolean;
+}
+
+/**
+ * Sends `method` requests to `path` with the client's safe methods when `mutate` is called.
+ * `onMutate` runs first for optimistic updates, and its result is passed to
+ * `onSuccess`, `onError` and `onSettled` to roll them back.
+ * A request still in flight is aborted on unmount, without calling `onError` or `onSettled`.
+ */
+export function useMutation<
+  T = unknown,
+  TBody = unknown,
+  E = unknown,
+  TContext = unknown
+>(
+  method: MutationMethod,
+  path: string,
+  options: UseMutationOptions<T, TBody, E, TContext> = {}
+): UseMutationResult<T, TBody, E> {
+  const client = useFetchClient(options.client);
+
+  const [state, setState] = useState<MutationState<T, E>>({
+    response: undefined,
+    isLoading: false,
+  });
+
+  const latest = useRef({ method, path, client, options });
+  latest.current = { method, path, client, options };
+
+  const controllerRef = useRef<AbortController | null>(null);
+  useEffect(
+    () => () => {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+    },
+    []
+  );
+
+  const mutate = useCallback(
+    async (
+      body?: TBody,
+      overrides?: Omit<RequestOptions<TBody, T>, "body">
+    ) => {
+      const { method, path, client, options } = latest.current;
+      const {
+        onMutate,
+        onSuccess,
+        onError,
+        onSettled,
+        client: _,
+        ...requestOptions
+      } = options;
+      const input = body as TBody;
+
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setState((s) => ({ ...s, isLoading: true }));
+
+      let context: TContext | undefined;
+      let response: StandardResponse<T, E> | undefined;
+      try {
+        context = await onMutate?.(input);
+        // Typed clients are sent through untyped, and every method takes a body at runtime
+        const untyped = client as Record<HooksMethods, FetchClient["safePost"]>;
+        response = (await untyped[safeMethods[method]](path, {
+          ...requestOptions,
+          ...overrides,
+          body,
+          signal: anySignal(
+            controller.signal,
+            overrides?.signal ?? requestOptions.signal
+          ),
+        })) as StandardResponse<T, E>;
+
+        if (response.ok) await onSuccess?.(response.data, input, context);
+        else if (!controller.signal.aborted) {
+          await onError?.(response, input, context);
+        }
+      } finally {
+        // Aborted by reset(), unmount or a newer mutate(), nothing is left to settle
+        if (!controller.signal.aborted) {
+          await onSettled?.(response, input, context);
+        }
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+          setState({ response, isLoading: false });
+        }
+      }
+
+      return response;
+    },
+    []
+  );
+
+  const reset = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setState({ response: undefined, isLoading: false });
+  }, []);
+
+  const { response, isLoading } = state;
+  return {
+    mutate,
+    data: response?.ok ? response.data : undefined,
+    error: response && !response.ok ? response : undefined,
+    response,
+    isLoading,
+    reset,
+  };
+}
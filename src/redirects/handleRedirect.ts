@@ -5,24 +5,43 @@ import type {
   RedirectMeta,
 } from "../types.js";
 
+/**
+ * Where a manual redirect points to, or `undefined` for other responses.
+ */
+function getRedirectLocation(
+  res: Response,
+  ctx: RequestContext
+): string | undefined {
+  // Browsers hide the status and location of manual redirects
+  // Navigating to the original URL lets the browser follow them
+  if (res.type === "opaqueredirect") return ctx.url;
+
+  if (res.status < 300 || res.status >= 400) return undefined;
+
+  return res.headers.get("location") ?? undefined;
+}
+
 async function handleRedirect(
   res: Response,
   ctx: RequestContext,
-  redirects?: FetchClientConfig["redirects"]
+  redirects?: FetchClientConfig["redirects"],
+  onRedirect?: (ctx: RedirectContext) => void | Promise<void>
 ): Promise<RedirectMeta> {
-  if (res.status < 300 || res.status >= 400) {
-    return { redirected: false };
-  }
-
-  const location = res.headers.get("location");
+  const location = getRedirectLocation(res, ctx);
   if (!location) return { redirected: false };
 
+  const opaque = res.type === "opaqueredirect";
+
   const rctx: RedirectContext = {
     location,
     status: res.status,
+    opaque,
     ctx,
   };
 
+  // Per-request hook
+  await onRedirect?.(rctx);
+
   // Client-side / observational hook
   if (!ctx.isServer && redirects?.onClientRedirect) {
     await redirects?.onClientRedirect?.(rctx);
@@ -43,7 +62,8 @@ async function handleRedirect(
     redirected: true,
     location,
     status: res.status,
+    opaque,
   };
 }
 
-export { handleRedirect };
+export { handleRedirect, getRedirectLocation };
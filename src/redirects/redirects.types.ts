@@ -3,6 +3,11 @@ import { RequestContext } from "../types.js";
 export interface RedirectContext {
   location: string;
   status: number;
+  /**
+   * The browser hid the redirect (`opaqueredirect` response).
+   * `status` is 0 and `location` is the original request URL.
+   */
+  opaque: boolean;
   ctx: RequestContext;
 }
 
@@ -30,4 +35,5 @@ export type RedirectMeta =
       redirected: true;
       location: string;
       status: number;
+      opaque: boolean;
     };
@@ -0,0 +1,24 @@
+import { createRequestAdapter } from "../adapters/index.js";
+import type { AdapterConfig, RequestFetchClient } from "../adapters/index.js";
+import { createCookieReader } from "../utils/index.js";
+
+/**
+ * `createFetchClient` for Remix and React Router loaders and actions.
+ * Returns a function that binds the client to the incoming `Request`:
+ * - Cookies are read from its `Cookie` header
+ * - Its headers listed in `forwardHeaders` are sent to the backend
+ * - Server redirects throw a redirect `Response`, like `throw redirect()`
+ */
+function createRemixFetchClient<C extends AdapterConfig = AdapterConfig>(
+  config: C = {} as C
+): RequestFetchClient<Request, C> {
+  return createRequestAdapter(config, (request: Request) => ({
+    headers: request.headers,
+    cookies: createCookieReader(request.headers.get("cookie")),
+    onServerRedirect({ location, status }) {
+      throw new Response(null, { status, headers: { location } });
+    },
+  }));
+}
+
+export { createRemixFetchClient as createFetchClient };
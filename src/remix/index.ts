@@ -0,0 +1,2 @@
+export { createFetchClient } from "./createRemixClient.js";
+export type { AdapterConfig, RequestFetchClient } from "../adapters/index.js";
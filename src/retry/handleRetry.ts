@@ -0,0 +1,192 @@
+import {
+  type RetryConfig,
+  type RetryOption,
+  type RetryInfo,
+  type RetryPolicy,
+  type SendResult,
+  NetworkError,
+} from "../types.js";
+
+const defaultPolicy: RetryPolicy = {
+  attempts: 3,
+  statuses: [408, 429, 500, 502, 503, 504],
+  networkErrors: true,
+  methods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+  delay: 300,
+  factor: 2,
+  maxDelay: 30_000,
+  jitter: true,
+  respectRetryAfter: true,
+};
+
+function toConfig(option: RetryOption | undefined): RetryConfig | undefined {
+  if (option === undefined) return undefined;
+  if (option === false) return { attempts: 1 };
+  if (typeof option === "number") return { attempts: option };
+  return option;
+}
+
+/**
+ * Merges the client and request retry options.
+ * Without either, requests are sent once.
+ */
+function resolveRetryPolicy(
+  global?: RetryOption,
+  local?: RetryOption
+): RetryPolicy {
+  const g = toConfig(global);
+  const l = toConfig(local);
+  if (!g && !l) return { ...defaultPolicy, attempts: 1 };
+
+  return { ...defaultPolicy, ...g, ...l };
+}
+
+/**
+ * Merges a parent and child retry option, used when extending a client.
+ */
+function mergeRetryOptions(
+  parent?: RetryOption,
+  child?: RetryOption
+): RetryOption | undefined {
+  if (parent === undefined || child === undefined) return child ?? parent;
+  return { ...toConfig(parent), ...toConfig(child) };
+}
+
+function canRetry(policy: RetryPolicy, method: string, attempt: number) {
+  return (
+    attempt < policy.attempts &&
+    policy.methods.some((m) => m.toUpperCase() === method.toUpperCase())
+  );
+}
+
+function shouldRetryResponse(
+  policy: RetryPolicy,
+  method: string,
+  attempt: number,
+  res: Response
+): boolean {
+  return (
+    canRetry(policy, method, attempt) && policy.statuses.includes(res.status)
+  );
+}
+
+function shouldRetryError(
+  policy: RetryPolicy,
+  method: string,
+  attempt: number,
+  error: unknown
+): boolean {
+  return (
+    policy.networkErrors &&
+    error instanceof NetworkError &&
+    canRetry(policy, method, attempt)
+  );
+}
+
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+
+  return undefined;
+}
+
+/**
+ * Delay in ms before the next attempt, `attempt` being the one that just failed.
+ */
+function getRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  res?: Response
+): number {
+  if (
+    policy.respectRetryAfter &&
+    res &&
+    (res.status === 429 || res.status === 503)
+  ) {
+    const retryAfter = parseRetryAfter(res.headers.get("retry-after"));
+    if (retryAfter !== undefined) return Math.min(retryAfter, policy.maxDelay);
+  }
+
+  const backoff = Math.min(
+    policy.delay * policy.factor ** (attempt - 1),
+    policy.maxDelay
+  );
+
+  return policy.jitter ? backoff / 2 + (Math.random() * backoff) / 2 : backoff;
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Sends a request until it succeeds, stops being retryable, or runs out of attempts.
+ * `send` is called once per attempt and must build a fresh `Request`.
+ */
+async function sendWithRetry(
+  policy: RetryPolicy,
+  method: string,
+  send: () => Promise<Response>,
+  signal?: AbortSignal | null,
+  onRetry?: (info: RetryInfo) => void
+): Promise<SendResult> {
+  for (let attempt = 1; ; attempt++) {
+    let response: Response | undefined;
+    let failure: unknown;
+    try {
+      response = await send();
+    } catch (error) {
+      failure = error;
+      if (
+        signal?.aborted ||
+        !shouldRetryError(policy, method, attempt, error)
+      ) {
+        return { error, attempts: attempt };
+      }
+    }
+
+    if (response && !shouldRetryResponse(policy, method, attempt, response)) {
+      return { response, attempts: attempt };
+    }
+
+    // Release the discarded body before waiting
+    await response?.body?.cancel().catch(() => {});
+
+    const delay = getRetryDelay(policy, attempt, response);
+    onRetry?.({ attempt, delay, response, error: failure });
+
+    try {
+      await sleep(delay, signal);
+    } catch (error) {
+      return { error, attempts: attempt };
+    }
+  }
+}
+
+export {
+  resolveRetryPolicy,
+  mergeRetryOptions,
+  sendWithRetry,
+  shouldRetryResponse,
+  shouldRetryError,
+  getRetryDelay,
+  sleep,
+};
@@ -0,0 +1 @@
+export * from "./handleRetry.js";
@@ -0,0 +1,71 @@
+export interface RetryConfig {
+  /**
+   * Maximum number of attempts, including the first request.
+   * @default 3
+   */
+  attempts?: number;
+  /**
+   * Response statuses that are retried.
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  statuses?: number[];
+  /**
+   * Retry when `fetch` rejects (DNS failure, connection reset, etc.).
+   * @default true
+   */
+  networkErrors?: boolean;
+  /**
+   * Methods that are retried. Only idempotent methods by default.
+   * @default ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]
+   */
+  methods?: string[];
+  /**
+   * Delay before the first retry in ms, grows by `factor` each attempt.
+   * @default 300
+   */
+  delay?: number;
+  /** @default 2 */
+  factor?: number;
+  /**
+   * Upper bound for a single delay in ms, also caps `Retry-After`.
+   * @default 30000
+   */
+  maxDelay?: number;
+  /**
+   * Randomize each delay between half and the full backoff.
+   * @default true
+   */
+  jitter?: boolean;
+  /**
+   * Wait for the `Retry-After` header on 429/503 instead of the backoff.
+   * @default true
+   */
+  respectRetryAfter?: boolean;
+}
+
+/**
+ * A number sets the max attempts, `false` disables retries.
+ */
+export type RetryOption = number | false | RetryConfig;
+
+export type RetryPolicy = Required<RetryConfig>;
+
+/**
+ * Outcome of sending a request with retries.
+ * Failures without a response are returned as `error` instead of thrown.
+ */
+export type SendResult =
+  | { response: Response; attempts: number; error?: undefined }
+  | { error: unknown; attempts: number; response?: undefined };
+
+/**
+ * A failed attempt that is about to be retried.
+ */
+export interface RetryInfo {
+  /** The attempt that failed, starting at 1 */
+  attempt: number;
+  /** Time in ms before the next attempt */
+  delay: number;
+  response?: Response;
+  error?: unknown;
+}
@@ -0,0 +1,160 @@
+import type {
+  DerivedClients,
+  FetchClient,
+  MethodResult,
+  QueryParams,
+  RequestMethod,
+  RequestOptions,
+  SafeMethods,
+} from "../types.js";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/**
+ * Types for one method of a route, every field is optional.
+ */
+export interface RouteDefinition {
+  /** Path params, defaults to the `:name` segments of the path */
+  params?: Record<string, string | number>;
+  /** Query string, sent as `params` */
+  query?: QueryParams;
+  body?: unknown;
+  response?: unknown;
+  /** Error response body, typed as `data` of a safe method's `StandardError` */
+  error?: unknown;
+}
+
+/**
+ * Path templates mapped to the methods they accept, e.g.
+ * `{ "/users/:id": { GET: { response: User } } }`.
+ * Declare it with `type`, interfaces do not satisfy the index signature.
+ */
+export type RouteMap = {
+  [path: string]: Partial<Record<HttpMethod, RouteDefinition>>;
+};
+
+type SegmentParamNames<P extends string> =
+  P extends `${string}/:${infer Param}/${infer Rest}`
+    ? Param | SegmentParamNames<`/${Rest}`>
+    : P extends `${string}/:${infer Param}`
+    ? Param
+    : never;
+
+type TemplateParamNames<P extends string> =
+  P extends `${string}{${infer Param}}${infer Rest}`
+    ? Param | TemplateParamNames<Rest>
+    : never;
+
+/**
+ * Names of the params in a path template, `/:name` spans a whole segment
+ * and `{name}` can appear anywhere, e.g. `/files/{name}.{ext}`.
+ */
+export type PathParamNames<P extends string> =
+  | SegmentParamNames<P>
+  | TemplateParamNames<P>;
+
+/**
+ * Paths in `R` that accept method `M`.
+ */
+export type RoutePath<R, M extends HttpMethod> = {
+  [P in keyof R & string]: M extends keyof R[P] ? P : never;
+}[keyof R & string];
+
+type Route<R, P extends keyof R, M extends HttpMethod> = M extends keyof R[P]
+  ? R[P][M]
+  : never;
+
+type Field<D, K extends keyof RouteDefinition, Fallback> = K extends keyof D
+  ? D[K]
+  : Fallback;
+
+type PathParamsOption<D, P extends string> = "params" extends keyof D
+  ? { pathParams: D["params"] }
+  : [PathParamNames<P>] extends [never]
+  ? { pathParams?: undefined }
+  : { pathParams: Record<PathParamNames<P>, string | number> };
+
+type QueryOption<D> = "query" extends keyof D
+  ? {} extends D["query"]
+    ? { params?: D["query"] }
+    : { params: D["query"] }
+  : Pick<RequestOptions, "params">;
+
+type BodyOption<D> = "body" extends keyof D
+  ? undefined extends D["body"]
+    ? { body?: D["body"] }
+    : { body: D["body"] }
+  : {};
+
+export type RouteResponse<R, P extends keyof R, M extends HttpMethod> = Field<
+  Route<R, P, M>,
+  "response",
+  unknown
+>;
+
+export type RouteError<R, P extends keyof R, M extends HttpMethod> = Field<
+  Route<R, P, M>,
+  "error",
+  unknown
+>;
+
+/**
+ * Request options for a route, path params and a declared body are required.
+ */
+export type RouteOptions<
+  R,
+  P extends keyof R & string,
+  M extends HttpMethod
+> = Omit<
+  RequestOptions<
+    Field<Route<R, P, M>, "body", unknown>,
+    RouteResponse<R, P, M>
+  >,
+  "params" | "pathParams" | "body"
+> &
+  PathParamsOption<Route<R, P, M>, P> &
+  QueryOption<Route<R, P, M>> &
+  BodyOption<Route<R, P, M>>;
+
+type OptionsArgs<O> = {} extends O ? [options?: O] : [options: O];
+
+/**
+ * A method typed from a route map, unknown paths do not compile.
+ */
+export interface TypedMethod<
+  R,
+  M extends HttpMethod,
+  Safe extends boolean = false
+> {
+  <P extends RoutePath<R, M>>(
+    path: P,
+    ...options: OptionsArgs<RouteOptions<R, P, M>>
+  ): Promise<MethodResult<RouteResponse<R, P, M>, Safe, RouteError<R, P, M>>>;
+}
+
+export interface TypedFetchClient<R>
+  extends DerivedClients<TypedFetchClient<R>> {
+  get: TypedMethod<R, "GET">;
+  post: TypedMethod<R, "POST">;
+  put: TypedMethod<R, "PUT">;
+  patch: TypedMethod<R, "PATCH">;
+  delete: TypedMethod<R, "DELETE">;
+
+  safeGet: TypedMethod<R, "GET", true>;
+  safePost: TypedMethod<R, "POST", true>;
+  safePut: TypedMethod<R, "PUT", true>;
+  safePatch: TypedMethod<R, "PATCH", true>;
+  safeDelete: TypedMethod<R, "DELETE", true>;
+
+  /** Untyped escape hatch for paths outside the route map */
+  request: RequestMethod;
+
+  stream: FetchClient["stream"];
+  paginate: FetchClient["paginate"];
+
+  invalidate: FetchClient["invalidate"];
+}
+
+export interface SafeTypedFetchClient<R>
+  extends Pick<TypedFetchClient<R>, SafeMethods | "invalidate">,
+    DerivedClients<SafeTypedFetchClient<R>> {}
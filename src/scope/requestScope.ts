@@ -0,0 +1,57 @@
+import type { FetchClient } from "../types.js";
+
+/**
+ * Clients created during a single server request, keyed by the lazy client that owns them.
+ */
+export type RequestScope = Map<object, FetchClient>;
+
+interface ScopeStorage {
+  run<R>(store: RequestScope, fn: () => R): R;
+  getStore(): RequestScope | undefined;
+}
+
+let storage: Promise<ScopeStorage | null> | null = null;
+
+/**
+ * Loads `AsyncLocalStorage` on first use, preferring the global one provided by edge runtimes.
+ * The module name is kept in a variable so browser bundles never try to resolve it.
+ */
+function loadScopeStorage(): Promise<ScopeStorage | null> {
+  storage ??= (async () => {
+    const asyncHooks = "node:async_hooks";
+    const Storage =
+      (globalThis as any).AsyncLocalStorage ??
+      (await import(asyncHooks).then(
+        (mod) => mod.AsyncLocalStorage,
+        () => undefined
+      ));
+
+    return Storage ? (new Storage() as ScopeStorage) : null;
+  })();
+
+  return storage;
+}
+
+/**
+ * Runs `fn` in a fresh request scope.
+ * Clients with `options.scope: "request"` create one instance per scope on the server,
+ * so auth state is never shared between concurrent requests.
+ */
+export async function runInRequestScope<R>(
+  fn: () => R | Promise<R>
+): Promise<R> {
+  const scopeStorage = await loadScopeStorage();
+  if (!scopeStorage) {
+    throw new Error("Request scopes require AsyncLocalStorage");
+  }
+
+  return scopeStorage.run(new Map(), fn);
+}
+
+/**
+ * Returns the current request scope, or `undefined` outside of `runInRequestScope`.
+ */
+export async function getRequestScope(): Promise<RequestScope | undefined> {
+  const scopeStorage = await loadScopeStorage();
+  return scopeStorage?.getStore();
+}
@@ -0,0 +1,215 @@
+import { sleep } from "../retry/index.js";
+import { AbortError, NetworkError } from "../types.js";
+import type {
+  ReconnectOptions,
+  ServerSentEvent,
+  StreamFormat,
+  StreamIterator,
+} from "./stream.types.js";
+
+interface EventStreamState {
+  lastEventId?: string;
+  /** Reconnection time sent by the server */
+  retry?: number;
+}
+
+function detectFormat(res: Response): StreamFormat {
+  const type = (res.headers.get("content-type") ?? "")
+    .split(";")[0]
+    .trim()
+    .toLowerCase();
+
+  if (type === "text/event-stream") return "sse";
+  if (type === "application/x-ndjson" || type === "application/jsonl") {
+    return "ndjson";
+  }
+  return "text";
+}
+
+/**
+ * Decodes a body as it arrives. Aborting `signal` cancels it with an `AbortError`,
+ * and the body is released when the consumer stops early.
+ */
+async function* readText(
+  body: ReadableStream<Uint8Array> | null,
+  signal?: AbortSignal | null
+): AsyncGenerator<string> {
+  if (!body) return;
+
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const onAbort = () => void reader.cancel(signal!.reason).catch(() => {});
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    for (;;) {
+      if (signal?.aborted) throw new AbortError(signal.reason);
+      const { done, value } = await reader.read();
+      if (signal?.aborted) throw new AbortError(signal.reason);
+      if (done) break;
+
+      const text = decoder.decode(value, { stream: true });
+      if (text) yield text;
+    }
+
+    const rest = decoder.decode();
+    if (rest) yield rest;
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Splits text chunks into lines ending in `\r\n`, `\n` or `\r`.
+ */
+async function* readLines(
+  chunks: AsyncIterable<string>
+): AsyncGenerator<string> {
+  let buffer = "";
+
+  for await (const chunk of chunks) {
+    buffer += chunk;
+
+    const terminator = /\r\n|\r|\n/g;
+    let start = 0;
+    let match: RegExpExecArray | null;
+    while ((match = terminator.exec(buffer))) {
+      // A trailing `\r` may be the start of `\r\n`
+      if (match[0] === "\r" && terminator.lastIndex === buffer.length) break;
+      yield buffer.slice(start, match.index);
+      start = terminator.lastIndex;
+    }
+    buffer = buffer.slice(start);
+  }
+
+  if (buffer.endsWith("\r")) yield buffer.slice(0, -1);
+  else if (buffer) yield buffer;
+}
+
+/**
+ * Parses `text/event-stream` lines into events, following the HTML spec.
+ * An event without a terminating blank line is discarded.
+ */
+async function* parseEventStream(
+  lines: AsyncIterable<string>,
+  state: EventStreamState
+): AsyncGenerator<ServerSentEvent> {
+  let data: string[] = [];
+  let event = "";
+
+  for await (const line of lines) {
+    if (line === "") {
+      if (data.length) {
+        yield {
+          event: event || "message",
+          data: data.join("\n"),
+          id: state.lastEventId,
+        };
+      }
+      data = [];
+      event = "";
+      continue;
+    }
+    if (line.startsWith(":")) continue;
+
+    const idx = line.indexOf(":");
+    const field = idx === -1 ? line : line.slice(0, idx);
+    let value = idx === -1 ? "" : line.slice(idx + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    switch (field) {
+      case "data":
+        data.push(value);
+        break;
+      case "event":
+        event = value;
+        break;
+      case "id":
+        if (!value.includes("\0")) state.lastEventId = value;
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) state.retry = Number(value);
+        break;
+    }
+  }
+}
+
+async function* parseNdjson(
+  lines: AsyncIterable<string>
+): AsyncGenerator<unknown> {
+  for await (const line of lines) {
+    if (line.trim()) yield JSON.parse(line);
+  }
+}
+
+/**
+ * Reads streaming responses from `connect` as SSE events, NDJSON values or text chunks.
+ * With `reconnect`, SSE streams that end or drop are reopened with the last event ID,
+ * errors from `connect` other than network failures are always thrown.
+ */
+async function* readStream<T>(
+  connect: (lastEventId: string | undefined) => Promise<Response>,
+  options: {
+    format?: StreamFormat;
+    reconnect?: boolean | ReconnectOptions;
+    signal?: AbortSignal | null;
+  }
+): StreamIterator<T> {
+  const { format, reconnect, signal } = options;
+  const { delay = 3000, attempts = Infinity } =
+    typeof reconnect === "object" ? reconnect : {};
+  const canReconnect = !!reconnect && (!format || format === "sse");
+
+  const state: EventStreamState = {};
+  let failures = 0;
+
+  for (;;) {
+    let lastError: unknown;
+    let reading = false;
+
+    try {
+      const res = await connect(state.lastEventId);
+      const resolved = format ?? detectFormat(res);
+      const chunks = readText(res.body, signal);
+
+      if (resolved === "text") {
+        yield* chunks as AsyncGenerator<T>;
+        return;
+      }
+      if (resolved === "ndjson") {
+        yield* parseNdjson(readLines(chunks)) as AsyncGenerator<T>;
+        return;
+      }
+
+      reading = true;
+      for await (const event of parseEventStream(readLines(chunks), state)) {
+        failures = 0;
+        yield event as T;
+      }
+
+      // 204 tells the client to stop reconnecting
+      if (!canReconnect || res.status === 204) return;
+    } catch (error) {
+      if (
+        !canReconnect ||
+        signal?.aborted ||
+        !(reading || error instanceof NetworkError)
+      ) {
+        throw error;
+      }
+      lastError = error;
+    }
+
+    if (++failures > attempts) {
+      if (lastError) throw lastError;
+      return;
+    }
+
+    await sleep(state.retry ?? delay, signal).catch(() => {
+      throw new AbortError(signal!.reason);
+    });
+  }
+}
+
+export { readStream };
@@ -0,0 +1 @@
+export * from "./handleStream.js";
@@ -0,0 +1,69 @@
+import type { RequestOptions } from "../types.js";
+
+/**
+ * How `client.stream()` reads a response body:
+ * - `sse`: `text/event-stream` events
+ * - `ndjson`: one JSON value per line
+ * - `text`: decoded text chunks as they arrive
+ */
+export type StreamFormat = "sse" | "ndjson" | "text";
+
+/**
+ * An event from a `text/event-stream` response.
+ */
+export interface ServerSentEvent {
+  /** @default "message" */
+  event: string;
+  data: string;
+  /** The last event ID, sent as `Last-Event-ID` when reconnecting */
+  id?: string;
+}
+
+export interface ReconnectOptions {
+  /**
+   * Delay before reconnecting in ms, unless the server sends a `retry:` field.
+   * @default 3000
+   */
+  delay?: number;
+  /**
+   * Reconnects in a row without receiving an event before giving up.
+   * @default Infinity
+   */
+  attempts?: number;
+}
+
+export interface StreamOptions<TBody = unknown>
+  extends Omit<
+    RequestOptions<TBody>,
+    "responseType" | "schema" | "cache" | "dedupe" | "onError"
+  > {
+  /** @default "GET" */
+  method?: string;
+  /**
+   * How to read the body, detected from the content-type by default.
+   * Anything but SSE and NDJSON is read as text.
+   */
+  format?: StreamFormat;
+  /**
+   * Reconnect SSE streams that end or drop, resuming with `Last-Event-ID`.
+   * A `204` response stops reconnecting.
+   */
+  reconnect?: boolean | ReconnectOptions;
+}
+
+export type StreamIterator<T> = AsyncGenerator<T, void, undefined>;
+
+/**
+ * `client.stream()`, the item type follows `format`.
+ */
+export interface StreamMethod {
+  (
+    path: string,
+    options: StreamOptions & { format: "sse" }
+  ): StreamIterator<ServerSentEvent>;
+  (
+    path: string,
+    options: StreamOptions & { format: "text" }
+  ): StreamIterator<string>;
+  <T = unknown>(path: string, options?: StreamOptions): StreamIterator<T>;
+}
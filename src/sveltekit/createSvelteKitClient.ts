@@ -0,0 +1,45 @@
+import { createRequestAdapter } from "../adapters/index.js";
+import type { RequestFetchClient } from "../adapters/index.js";
+import type {
+  SvelteKitEvent,
+  SvelteKitFetchClientConfig,
+  SvelteKitModules,
+} from "./sveltekit.types.js";
+
+/**
+ * The module name is kept in a variable so it's only resolved when SvelteKit is installed.
+ */
+function loadKitModules(): Promise<SvelteKitModules> {
+  const kit = "@sveltejs/kit";
+  return import(kit);
+}
+
+/**
+ * `createFetchClient` for SvelteKit server `load` functions, actions and hooks.
+ * Returns a function that binds the client to the `RequestEvent`:
+ * - Cookies are read with `event.cookies`
+ * - Request headers listed in `forwardHeaders` are sent to the backend
+ * - Server redirects throw SvelteKit's `redirect()`
+ * - Requests are sent with `event.fetch`
+ */
+function createSvelteKitFetchClient<
+  C extends SvelteKitFetchClientConfig = SvelteKitFetchClientConfig
+>(config: C = {} as C): RequestFetchClient<SvelteKitEvent, C> {
+  const { loadKit = loadKitModules, ...adapterConfig } = config;
+
+  return createRequestAdapter(adapterConfig, (event: SvelteKitEvent) => ({
+    headers: event.request.headers,
+    cookies: {
+      get(name) {
+        const value = event.cookies.get(name);
+        return value === undefined ? undefined : { value };
+      },
+    },
+    async onServerRedirect({ location, status }) {
+      (await loadKit()).redirect(status, location);
+    },
+    fetch: (input, init) => event.fetch(input, init),
+  })) as RequestFetchClient<SvelteKitEvent, C>;
+}
+
+export { createSvelteKitFetchClient as createFetchClient };
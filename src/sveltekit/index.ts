@@ -0,0 +1,3 @@
+export { createFetchClient } from "./createSvelteKitClient.js";
+export type { AdapterConfig, RequestFetchClient } from "../adapters/index.js";
+export * from "./sveltekit.types.js";
@@ -0,0 +1,29 @@
+import type { AdapterConfig } from "../adapters/index.js";
+
+/**
+ * The parts of SvelteKit's `RequestEvent` used by the adapter.
+ */
+export interface SvelteKitEvent {
+  request: Request;
+  cookies: { get(name: string): string | undefined };
+  fetch: typeof fetch;
+}
+
+/**
+ * The parts of `@sveltejs/kit` used by the adapter.
+ */
+export interface SvelteKitModules {
+  redirect(status: number, location: string): never;
+}
+
+export type SvelteKitLoader = () =>
+  | SvelteKitModules
+  | Promise<SvelteKitModules>;
+
+export interface SvelteKitFetchClientConfig extends AdapterConfig {
+  /**
+   * Loads SvelteKit's `redirect()`.
+   * @default imports `@sveltejs/kit`
+   */
+  loadKit?: SvelteKitLoader;
+}
@@ -2,7 +2,32 @@
 // Environment & Context Types
 // ============================================================================
 
-import { ErrorConfig, ErrorContext } from "./errors/errors.types.js";
+import {
+  ErrorConfig,
+  ErrorContext,
+  ErrorReason,
+} from "./errors/errors.types.js";
+import {
+  CacheConfig,
+  CacheInvalidation,
+  RequestCacheOption,
+} from "./cache/cache.types.js";
+import { LoggerOption, TraceparentOption } from "./logging/logging.types.js";
+import { Middleware } from "./middleware/middleware.types.js";
+import { RetryOption } from "./retry/retry.types.js";
+import {
+  RouteMap,
+  SafeTypedFetchClient,
+  TypedFetchClient,
+} from "./routes/routes.types.js";
+import { PaginateMethod } from "./paginate/paginate.types.js";
+import { ProgressCallback } from "./progress/progress.types.js";
+import { StreamMethod } from "./stream/stream.types.js";
+import {
+  BodySchema,
+  Schema,
+  ValidationIssue,
+} from "./validation/validation.types.js";
 import {
   RedirectConfig,
   RedirectContext,
@@ -14,6 +39,8 @@ export interface RequestContext {
   method: string;
   headers: Headers;
   request: Request;
+  /** Options the request was made with, middleware can read custom fields from it */
+  options: RequestOptions;
 }
 
 // ============================================================================
@@ -24,6 +51,14 @@ export interface CookieReader {
   get(name: string): { value: string } | undefined;
 }
 
+/**
+ * Cookie store used for server auth.
+ * Pass a function to resolve the store per request (e.g. Next.js `cookies()`).
+ */
+export type CookieSource =
+  | CookieReader
+  | (() => CookieReader | Promise<CookieReader>);
+
 export interface CookieContext {
   cookieStore: CookieReader;
   headers: Headers;
@@ -48,9 +83,53 @@ export interface ServerAuthConfig {
   }): Record<string, string> | Promise<Record<string, string>>;
 }
 
+export interface TokenContext {
+  isServer: boolean;
+  url: string;
+  method: string;
+}
+
+export interface TokenRefreshContext extends TokenContext {
+  /** The 401 response that triggered the refresh */
+  response: Response;
+}
+
+export interface TokenAuthConfig {
+  enabled?: boolean;
+  /**
+   * Header the token is sent in.
+   * @default "authorization"
+   */
+  header?: string;
+  /**
+   * Prefix for the header value. Set to `""` to send the raw token.
+   * @default "Bearer"
+   */
+  scheme?: string;
+  /** Returns the current access token, or nothing to send the request without one */
+  getToken(
+    ctx: TokenContext
+  ): string | null | undefined | Promise<string | null | undefined>;
+  /**
+   * Runs when a request fails with 401. The request is replayed once with the new token.
+   * - Return the new token, or nothing to re-read it with `getToken`
+   * - Throw to fail the refresh, the original 401 is then handled as a normal error
+   * - Concurrent 401s share a single in-flight refresh
+   */
+  refresh?(
+    ctx: TokenRefreshContext
+  ):
+    | string
+    | null
+    | undefined
+    | void
+    | Promise<string | null | undefined | void>;
+}
+
 export interface AuthConfig {
   client?: ClientAuthConfig;
   server?: ServerAuthConfig;
+  token?: TokenAuthConfig;
 }
 
 // ============================================================================
@@ -64,30 +143,45 @@ export interface StandardSuccess<T> {
   message?: string;
   headers: Headers;
   raw: Response;
+  /** Number of attempts made, including retries */
+  attempts?: number;
 }
 
-export interface StandardError {
+export interface StandardError<E = unknown> {
   ok: false;
   status: number;
   message: string;
-  data?: unknown;
-  raw: Response;
+  data?: E;
+  /** Missing when the request failed without a response */
+  raw?: Response;
+  /** Set when the request failed without an HTTP error status */
+  reason?: ErrorReason;
+  /** Set when `reason` is `"validation"` */
+  issues?: ValidationIssue[];
+  /** Number of attempts made, including retries */
+  attempts?: number;
 }
 
-type StandardRedirect = {
+export interface StandardRedirect {
   ok: false;
   redirected: true;
   status: number;
   location: string;
-};
+  /** See `RedirectContext.opaque` */
+  opaque?: boolean;
+}
 
-export type StandardResponse<T> =
+export type StandardResponse<T, E = unknown> =
   | StandardSuccess<T>
-  | StandardError
+  | StandardError<E>
   | StandardRedirect;
 
 export interface ResponseShaper<TResponse = unknown> {
-  success(ctx: { data: unknown; response: Response }): TResponse;
+  success(ctx: {
+    data: unknown;
+    response: Response;
+    attempts: number;
+  }): TResponse;
   error(ctx: ErrorContext): StandardError;
   redirect?(ctx: RedirectContext): StandardRedirect;
 }
@@ -102,7 +196,7 @@ export interface FullResponseShaper<T> extends ResponseShaper<T> {
 
 export interface FetchClientConfig {
   baseUrl?: string;
-  cookies?: CookieReader;
+  cookies?: CookieSource;
   auth?: AuthConfig;
   errors?: ErrorConfig;
   /**
@@ -111,26 +205,215 @@ export interface FetchClientConfig {
    */
   redirects?: RedirectConfig;
   headers?: HeadersInit;
+  /**
+   * Timeout in ms for every request, including retries and reading the body.
+   * Can be overridden per request.
+   */
+  timeout?: number;
+  /**
+   * Collapse concurrent identical GET/HEAD requests into a single network call.
+   * Requests only match when their URL and headers (including cookies and tokens) match.
+   * @default true
+   */
+  dedupe?: boolean;
+  /**
+   * Retry policy for every request, requests are sent once by default.
+   * Can be overridden per request.
+   */
+  retry?: RetryOption;
+  /**
+   * How `params` are written to the query string.
+   * Pass options (e.g. `{ arrayFormat: "brackets" }`) or a function returning the query string.
+   */
+  paramsSerializer?: ParamsSerializer | ParamsSerializerOptions;
+  /**
+   * Caches GET responses, `true` uses an in-memory LRU.
+   * Entries are keyed by URL and auth identity, and honor `Cache-Control` and `ETag`.
+   */
+  cache?: boolean | CacheConfig;
+  /**
+   * Runs around every network call, in order.
+   * Each middleware can rewrite the request, short-circuit with its own `Response`,
+   * or post-process the response before it is parsed.
+   */
+  middleware?: Middleware[];
+  /**
+   * The `fetch` requests are sent with, e.g. SvelteKit's `event.fetch`.
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+  /**
+   * Custom serializers for plain-object bodies, picked by the request's content-type.
+   * FormData, Blob, ArrayBuffer, URLSearchParams, streams and strings are always sent untouched.
+   */
+  serializers?: BodySerializers;
+  /**
+   * Custom parsers for successful and error responses, picked by content-type.
+   * Used when a request does not set `responseType`.
+   */
+  parsers?: ResponseParsers;
+  /**
+   * Receives structured `start`, `retry`, `response`, `redirect` and `error` events
+   * for every request. Credential headers and `redactBody` fields are redacted.
+   */
+  logger?: LoggerOption;
+  /**
+   * Sends a W3C `traceparent` header so backend logs can be correlated with requests.
+   * Headers set on the client or request are never replaced.
+   */
+  traceparent?: TraceparentOption;
   responseFormat?: ResponseShaper;
   options?: FetchClientOptions;
+  /**
+   * Type-only route map, types paths, params, bodies and responses of the client's methods.
+   * @example routes: {} as ApiRoutes
+   */
+  routes?: RouteMap;
 }
 
+/**
+ * Reads a response body, registered by media type in `FetchClientConfig.parsers`.
+ */
+export type ResponseParser = (res: Response) => unknown | Promise<unknown>;
+
+/**
+ * Response parsers keyed by media type, e.g. `"application/xml"` or `"image/*"`.
+ */
+export type ResponseParsers = Record<string, ResponseParser>;
+
+/**
+ * Turns a request body into something `fetch` can send.
+ */
+export type BodySerializer = (body: unknown) => BodyInit;
+
+/**
+ * Body serializers keyed by media type, e.g. `"application/x-msgpack"`.
+ */
+export type BodySerializers = Record<string, BodySerializer>;
+
+export type QueryValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | null
+  | undefined
+  | QueryValue[]
+  | { [key: string]: QueryValue };
+
+export type QueryParams = Record<string, QueryValue>;
+
+/**
+ * How arrays are written to the query string:
+ * - `repeat`: `a=1&a=2`
+ * - `brackets`: `a[]=1&a[]=2`
+ * - `comma`: `a=1,2`
+ * - `index`: `a[0]=1&a[1]=2`
+ */
+export type ArrayFormat = "repeat" | "brackets" | "comma" | "index";
+
+export interface ParamsSerializerOptions {
+  /** @default "repeat" */
+  arrayFormat?: ArrayFormat;
+  /** @default date.toISOString() */
+  serializeDate?(date: Date): string;
+}
+
+/**
+ * Returns the query string for `params`, without the leading `?`.
+ */
+export type ParamsSerializer = (params: QueryParams) => string;
+
 export interface FetchClientOptions {
   disableUnsafeRequests?: boolean;
+  /**
+   * How long a client instance lives on the server.
+   * - `"shared"`: one instance for the whole process
+   * - `"request"`: one instance per `runInRequestScope` call, or per call outside of one
+   *
+   * Browsers always use a single instance.
+   * @default "shared"
+   */
+  scope?: ClientScope;
 }
 
+export type ClientScope = "shared" | "request";
+
 // ============================================================================
 // Request Options
 // ============================================================================
 
-export interface RequestOptions<TBody = unknown>
-  extends Omit<RequestInit, "method" | "body"> {
-  body?: TBody;
-  params?: Record<string, string | number | boolean | null | undefined>;
+/**
+ * How to read a successful response body. Without one, the body is parsed by content-type.
+ */
+export type ResponseType =
+  | "json"
+  | "text"
+  | "blob"
+  | "arrayBuffer"
+  | "stream"
+  | "formData"
+  | "none";
+
+/**
+ * Data returned for each non-JSON `responseType`.
+ */
+export interface ResponseTypeMap {
+  text: string;
+  blob: Blob;
+  arrayBuffer: ArrayBuffer;
+  stream: ReadableStream<Uint8Array> | null;
+  formData: FormData;
+  none: undefined;
+}
+
+export type RawResponseType = keyof ResponseTypeMap;
+
+export interface RequestOptions<TBody = unknown, TData = unknown>
+  extends Omit<RequestInit, "method" | "body" | "cache"> {
+  /** Typed from `bodySchema` when one is given */
+  body?: NoInfer<TBody>;
+  /**
+   * Validates (and may transform) `body` before it is serialized.
+   * Invalid bodies fail with a `ValidationError` without sending the request.
+   */
+  bodySchema?: BodySchema<TBody>;
+  /** Appended to the query string, keeping any params already in the path */
+  params?: QueryParams;
+  /** Values for `/:name` segments and `{name}` templates in the path, encoded before they are substituted */
+  pathParams?: Record<string, string | number>;
   disableAuth?: boolean;
+  /** Timeout in ms, overrides the client's timeout */
+  timeout?: number;
+  /** Aborts the request, combined with the timeout */
+  signal?: AbortSignal | null;
+  /** How to read a successful response body, defaults to parsing by content-type */
+  responseType?: ResponseType;
+  /** Set to `false` to always send this request on its own */
+  dedupe?: boolean;
+  /** GET response caching, see `RequestCacheOption` */
+  cache?: RequestCacheOption;
+  /** Merged over the client's retry policy */
+  retry?: RetryOption;
   onError?(error: StandardError): unknown;
+  /**
+   * Reports bytes sent while the body uploads, from a counting stream.
+   * Runtimes that can't stream request bodies (Firefox, Safari) report once when the upload is done.
+   */
+  onUploadProgress?: ProgressCallback;
+  /** Reports bytes read from successful response bodies */
+  onDownloadProgress?: ProgressCallback;
+  /**
+   * Runs before the client's redirect handlers when the response is a redirect.
+   * Setting it switches the request to `redirect: "manual"`.
+   */
   onRedirect?(ctx: RedirectContext): void | Promise<void>;
-  schema?: { parse(data: unknown): unknown };
+  /**
+   * Validates (and may transform) successful response data.
+   * Accepts Standard Schema (Zod, Valibot, ArkType), `safeParse` or `parse` schemas.
+   * The response type is inferred from the schema.
+   */
+  schema?: Schema<TData>;
   headers?: HeadersInit;
 }
 
@@ -141,53 +424,139 @@ export interface RequestOptions<TBody = unknown>
 export type UnsafeMethods = "get" | "post" | "put" | "patch" | "delete";
 export type SafeMethods = `safe${Capitalize<UnsafeMethods>}` | "request";
 
+/**
+ * The client returned for a config, typed from `routes` when one is given.
+ * Configs that may leave `routes` out, like `FetchClientConfig`, get an untyped client.
+ */
+export type FetchClientFor<C extends FetchClientConfig> =
+  undefined extends C["routes"]
+    ? FetchClientForOptions<C["options"]>
+    : C["options"] extends { disableUnsafeRequests: true }
+    ? SafeTypedFetchClient<NonNullable<C["routes"]>>
+    : TypedFetchClient<NonNullable<C["routes"]>>;
+
 export type FetchClientForOptions<O> = O extends {
   disableUnsafeRequests?: boolean;
 }
   ? O["disableUnsafeRequests"] extends true
-    ? Pick<FetchClient, SafeMethods>
+    ? SafeFetchClient
     : FetchClient
   : FetchClient;
 
-export interface FetchClient {
-  get<T = unknown>(
-    path: string,
-    options?: Omit<RequestOptions, "body">
-  ): Promise<T>;
-  post<T = unknown>(path: string, options?: RequestOptions): Promise<T>;
-  put<T = unknown>(path: string, options?: RequestOptions): Promise<T>;
-  patch<T = unknown>(path: string, options?: RequestOptions): Promise<T>;
-  delete<T = unknown>(
-    path: string,
-    options?: Omit<RequestOptions, "body">
-  ): Promise<T>;
+export type BodylessRequestOptions<TData = unknown> = Omit<
+  RequestOptions<unknown, TData>,
+  "body" | "bodySchema"
+>;
 
-  safeGet<T = unknown>(
-    path: string,
-    options?: Omit<RequestOptions, "body">
-  ): Promise<StandardResponse<T>>;
-  safePost<T = unknown>(
-    path: string,
-    options?: RequestOptions
-  ): Promise<StandardResponse<T>>;
-  safePut<T = unknown>(
+export type MethodResult<
+  T,
+  Safe extends boolean,
+  E = unknown
+> = Safe extends true ? StandardResponse<T, E> : T;
+
+/**
+ * `get` / `delete` and their safe variants.
+ * The result is typed from `responseType`, then `schema`, then `T`.
+ */
+export interface BodylessMethod<Safe extends boolean = false> {
+  <R extends RawResponseType>(
     path: string,
-    options?: RequestOptions
-  ): Promise<StandardResponse<T>>;
-  safePatch<T = unknown>(
+    options: BodylessRequestOptions & { responseType: R }
+  ): Promise<MethodResult<ResponseTypeMap[R], Safe>>;
+  <T = unknown>(path: string, options?: BodylessRequestOptions<T>): Promise<
+    MethodResult<T, Safe>
+  >;
+}
+
+/**
+ * `post` / `put` / `patch` and their safe variants.
+ * The result is typed from `responseType`, then `schema`, then `T`.
+ */
+export interface BodyMethod<Safe extends boolean = false> {
+  <R extends RawResponseType>(
     path: string,
-    options?: RequestOptions
-  ): Promise<StandardResponse<T>>;
-  safeDelete<T = unknown>(
+    options: RequestOptions & { responseType: R }
+  ): Promise<MethodResult<ResponseTypeMap[R], Safe>>;
+  <T = unknown, TBody = unknown>(
     path: string,
-    options?: Omit<RequestOptions, "body">
-  ): Promise<StandardResponse<T>>;
+    options?: RequestOptions<TBody, T>
+  ): Promise<MethodResult<T, Safe>>;
+}
 
-  request<T = unknown>(
+export interface RequestMethod {
+  <R extends RawResponseType>(
+    path: string,
+    options: RequestOptions & { method: string; responseType: R }
+  ): Promise<ResponseTypeMap[R]>;
+  <T = unknown, TBody = unknown>(
     path: string,
-    options: RequestOptions & { method: string }
+    options: RequestOptions<TBody, T> & { method: string }
   ): Promise<T>;
 }
 
+/**
+ * Options applied to every request made through `client.with()`.
+ */
+export type ScopedOptions = Pick<RequestOptions, "headers" | "signal">;
+
+export interface DerivedClients<Client> {
+  /**
+   * Creates a new client from this client's config merged with `config`.
+   * - Headers, auth, errors, redirects, parsers and serializers are merged key by key
+   * - A relative `baseUrl` is appended to the parent's, an absolute one replaces it
+   * - Middleware runs parent first
+   */
+  extend(config: FetchClientConfig): Client;
+  /**
+   * Returns a view of this client that applies `options` to every request.
+   * Request headers win, and requests abort when either signal does.
+   */
+  with(options: ScopedOptions): Client;
+}
+
+export interface FetchClient extends DerivedClients<FetchClient> {
+  get: BodylessMethod;
+  post: BodyMethod;
+  put: BodyMethod;
+  patch: BodyMethod;
+  delete: BodylessMethod;
+
+  safeGet: BodylessMethod<true>;
+  safePost: BodyMethod<true>;
+  safePut: BodyMethod<true>;
+  safePatch: BodyMethod<true>;
+  safeDelete: BodylessMethod<true>;
+
+  request: RequestMethod;
+
+  /**
+   * Streams a response as SSE events, NDJSON values or text chunks.
+   * Errors are handled like `get`, the timeout only applies until the response starts.
+   */
+  stream: StreamMethod;
+
+  /**
+   * Iterates over the items of a paginated GET endpoint, fetching pages as needed.
+   * Each page is sent and fails like `get`.
+   */
+  paginate: PaginateMethod;
+
+  /** Drops cached responses, e.g. after a mutation */
+  invalidate(match: CacheInvalidation): Promise<void>;
+}
+
+export interface SafeFetchClient
+  extends Pick<FetchClient, SafeMethods | "invalidate">,
+    DerivedClients<SafeFetchClient> {}
+
+export * from "./cache/cache.types.js";
 export * from "./errors/errors.types.js";
+export * from "./logging/logging.types.js";
+export * from "./middleware/middleware.types.js";
+export * from "./paginate/paginate.types.js";
+export * from "./progress/progress.types.js";
 export * from "./redirects/redirects.types.js";
+export * from "./retry/retry.types.js";
+export * from "./routes/routes.types.js";
+export * from "./stream/stream.types.js";
+export * from "./validation/validation.types.js";
@@ -0,0 +1,64 @@
+import type { BodySerializers } from "../types.js";
+
+const defaultSerializers: BodySerializers = {
+  "application/json": (body) => JSON.stringify(body),
+  "application/x-www-form-urlencoded": (body) =>
+    new URLSearchParams(
+      Object.entries(body as Record<string, unknown>)
+        .filter(([, v]) => v != null)
+        .map(([k, v]) => [k, String(v)])
+    ).toString(),
+};
+
+function isStreamBody(body: unknown): body is ReadableStream {
+  return (
+    typeof ReadableStream !== "undefined" && body instanceof ReadableStream
+  );
+}
+
+/**
+ * Bodies `fetch` already knows how to send, along with their content-type.
+ */
+function isNativeBody(body: unknown): body is BodyInit {
+  return (
+    typeof body === "string" ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body) ||
+    (typeof Blob !== "undefined" && body instanceof Blob) ||
+    (typeof FormData !== "undefined" && body instanceof FormData) ||
+    body instanceof URLSearchParams ||
+    isStreamBody(body)
+  );
+}
+
+function mediaType(contentType: string): string {
+  return contentType.split(";")[0].trim().toLowerCase();
+}
+
+/**
+ * Serializes a request body and sets its content-type when needed.
+ * - Native bodies (FormData, Blob, ArrayBuffer, URLSearchParams, streams, strings)
+ *   are sent untouched, `fetch` sets their content-type (e.g. the multipart boundary)
+ * - Everything else is serialized by content-type, JSON by default
+ */
+function serializeBody(
+  body: unknown,
+  headers: Headers,
+  serializers?: BodySerializers
+): BodyInit {
+  if (isNativeBody(body)) return body;
+
+  if (!headers.has("content-type")) {
+    headers.set("content-type", "application/json");
+  }
+
+  const type = mediaType(headers.get("content-type")!);
+  const serializer =
+    serializers?.[type] ??
+    defaultSerializers[type] ??
+    defaultSerializers["application/json"];
+
+  return serializer(body);
+}
+
+export { serializeBody, isStreamBody, isNativeBody };
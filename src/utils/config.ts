@@ -0,0 +1,80 @@
+import { mergeRetryOptions } from "../retry/index.js";
+import type { AuthConfig, FetchClientConfig, ScopedOptions } from "../types.js";
+import { mergeHeaders } from "./fetchHelpers.js";
+
+function mergeObjects<T extends object>(parent?: T, child?: T): T | undefined {
+  return parent || child ? ({ ...parent, ...child } as T) : undefined;
+}
+
+/**
+ * Appends a relative `child` base URL to `parent`, absolute URLs replace it.
+ */
+function joinBaseUrl(parent?: string, child?: string): string | undefined {
+  if (!child) return parent;
+  if (!parent || /^https?:\/\//i.test(child)) return child;
+
+  return `${parent.replace(/\/+$/, "")}/${child.replace(/^\/+/, "")}`;
+}
+
+function mergeAuth(parent?: AuthConfig, child?: AuthConfig) {
+  if (!parent || !child) return child ?? parent;
+
+  return {
+    client: mergeObjects(parent.client, child.client),
+    server: mergeObjects(parent.server, child.server),
+    token: mergeObjects(parent.token, child.token),
+  };
+}
+
+/**
+ * Merges a child config over its parent for `client.extend()`.
+ * Nested objects are merged key by key, middleware runs parent first.
+ */
+function mergeConfig<P extends FetchClientConfig, C extends FetchClientConfig>(
+  parent: P,
+  child: C
+): P & C {
+  return {
+    ...parent,
+    ...child,
+    baseUrl: joinBaseUrl(parent.baseUrl, child.baseUrl),
+    headers: mergeHeaders(parent.headers, child.headers),
+    auth: mergeAuth(parent.auth, child.auth),
+    errors: mergeObjects(parent.errors, child.errors),
+    redirects: mergeObjects(parent.redirects, child.redirects),
+    retry: mergeRetryOptions(parent.retry, child.retry),
+    middleware: [...(parent.middleware ?? []), ...(child.middleware ?? [])],
+    serializers: mergeObjects(parent.serializers, child.serializers),
+    parsers: mergeObjects(parent.parsers, child.parsers),
+    options: mergeObjects(parent.options, child.options),
+  };
+}
+
+/**
+ * Combines signals, aborting with the reason of the first one that aborts.
+ */
+function anySignal(
+  ...signals: (AbortSignal | null | undefined)[]
+): AbortSignal | undefined {
+  const active = signals.filter((s): s is AbortSignal => !!s);
+  return active.length > 1 ? AbortSignal.any(active) : active[0];
+}
+
+/**
+ * Applies `client.with()` overrides to request options.
+ * Request headers win, and the request aborts when either signal does.
+ */
+function applyScopedOptions<O extends ScopedOptions>(
+  scoped: ScopedOptions,
+  options: O
+): O {
+  return {
+    ...options,
+    headers: scoped.headers
+      ? mergeHeaders(scoped.headers, options.headers)
+      : options.headers,
+    signal: anySignal(scoped.signal, options.signal),
+  };
+}
+
+export { joinBaseUrl, mergeConfig, anySignal, applyScopedOptions };
@@ -0,0 +1,162 @@
+import type { CookieReader } from "../types.js";
+
+// RFC 6265 cookie-name must be a token
+const COOKIE_NAME_RE = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+// RFC 6265 cookie-octet: anything outside this range has to be escaped
+const COOKIE_OCTET_RE = /[^\x21\x23-\x2B\x2D-\x3A\x3C-\x5B\x5D-\x7E]/g;
+
+function escapeCookieValue(value: string): string {
+  return value.replace(COOKIE_OCTET_RE, (ch) => encodeURIComponent(ch));
+}
+
+function parseCookieHeader(
+  header: string | null | undefined
+): Map<string, string> {
+  const jar = new Map<string, string>();
+  if (!header) return jar;
+
+  for (const part of header.split(";")) {
+    const idx = part.indexOf("=");
+    if (idx === -1) continue;
+    const name = part.slice(0, idx).trim();
+    if (!name) continue;
+    jar.set(name, part.slice(idx + 1).trim());
+  }
+
+  return jar;
+}
+
+/**
+ * Reads cookies from a `Cookie` header value, with decoded values.
+ */
+function createCookieReader(header: string | null | undefined): CookieReader {
+  const jar = parseCookieHeader(header);
+
+  return {
+    get(name) {
+      let value = jar.get(name);
+      if (value === undefined) return undefined;
+      try {
+        value = decodeURIComponent(value);
+      } catch {}
+      return { value };
+    },
+  };
+}
+
+/**
+ * Serializes cookies into a `Cookie` header value.
+ * Empty values are skipped, values are escaped, and invalid names throw.
+ */
+function serializeCookies(cookies: Record<string, string>): string {
+  const pairs: string[] = [];
+
+  for (const [name, value] of Object.entries(cookies)) {
+    if (value == null || value === "") continue;
+    if (!COOKIE_NAME_RE.test(name)) {
+      throw new TypeError(`Invalid cookie name "${name}"`);
+    }
+    pairs.push(`${name}=${escapeCookieValue(String(value))}`);
+  }
+
+  return pairs.join("; ");
+}
+
+/**
+ * Merges cookies into an existing `Cookie` header value.
+ * Cookies already present in the header take precedence.
+ */
+function mergeCookieHeader(
+  existing: string | null | undefined,
+  cookies: Record<string, string>
+): string {
+  const jar = parseCookieHeader(serializeCookies(cookies));
+  parseCookieHeader(existing).forEach((v, k) => jar.set(k, v));
+
+  return Array.from(jar, ([k, v]) => `${k}=${v}`).join("; ");
+}
+
+export interface SetCookie {
+  name: string;
+  value: string;
+  path?: string;
+  domain?: string;
+  /** In seconds */
+  maxAge?: number;
+  expires?: Date;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: "strict" | "lax" | "none";
+  partitioned?: boolean;
+}
+
+/**
+ * Parses a `Set-Cookie` header value, `undefined` when it has no valid name.
+ */
+function parseSetCookie(header: string): SetCookie | undefined {
+  const [pair, ...attributes] = header.split(";");
+  const idx = pair.indexOf("=");
+  if (idx === -1) return undefined;
+
+  const name = pair.slice(0, idx).trim();
+  if (!COOKIE_NAME_RE.test(name)) return undefined;
+
+  let value = pair.slice(idx + 1).trim();
+  try {
+    value = decodeURIComponent(value);
+  } catch {}
+
+  const cookie: SetCookie = { name, value };
+  for (const attribute of attributes) {
+    const [key, ...rest] = attribute.split("=");
+    const attrValue = rest.join("=").trim();
+
+    switch (key.trim().toLowerCase()) {
+      case "path":
+        cookie.path = attrValue;
+        break;
+      case "domain":
+        cookie.domain = attrValue;
+        break;
+      case "max-age":
+        if (!Number.isNaN(Number(attrValue))) cookie.maxAge = Number(attrValue);
+        break;
+      case "expires": {
+        const expires = new Date(attrValue);
+        if (!Number.isNaN(expires.getTime())) cookie.expires = expires;
+        break;
+      }
+      case "httponly":
+        cookie.httpOnly = true;
+        break;
+      case "secure":
+        cookie.secure = true;
+        break;
+      case "samesite": {
+        const sameSite = attrValue.toLowerCase();
+        if (
+          sameSite === "strict" ||
+          sameSite === "lax" ||
+          sameSite === "none"
+        ) {
+          cookie.sameSite = sameSite;
+        }
+        break;
+      }
+      case "partitioned":
+        cookie.partitioned = true;
+        break;
+    }
+  }
+
+  return cookie;
+}
+
+export {
+  parseCookieHeader,
+  createCookieReader,
+  serializeCookies,
+  mergeCookieHeader,
+  parseSetCookie,
+};
@@ -1,8 +1,51 @@
+import {
+  type ParamsSerializer,
+  type ParamsSerializerOptions,
+  type QueryParams,
+  NetworkError,
+} from "../types.js";
+import { appendQuery } from "./query.js";
+
+// `/:name` spans a whole segment, `{name}` can appear anywhere in one
+const PATH_PARAM = /\/:([^/]+)|\{([^{}/]+)\}/g;
+
+/**
+ * Replaces `/:name` segments and `{name}` templates in the pathname of `path`
+ * with encoded `pathParams`. Every placeholder must have a value, the query
+ * string and fragment are kept as they are.
+ */
+function fillPathParams(
+  path: string,
+  pathParams: Record<string, string | number>
+): string {
+  const end = path.search(/[?#]/);
+  const pathname = end === -1 ? path : path.slice(0, end);
+  const rest = end === -1 ? "" : path.slice(end);
+
+  const filled = pathname.replace(
+    PATH_PARAM,
+    (_, segment: string | undefined, template: string | undefined) => {
+      const name = segment ?? template!;
+      const value = pathParams[name];
+      if (value == null) {
+        throw new Error(`Missing path param "${name}" for "${path}"`);
+      }
+      const encoded = encodeURIComponent(String(value));
+      return segment ? `/${encoded}` : encoded;
+    }
+  );
+  return filled + rest;
+}
+
 function buildUrl(
   baseUrl: string | undefined,
   path: string,
-  params?: Record<string, unknown>
+  params?: QueryParams,
+  pathParams?: Record<string, string | number>,
+  paramsSerializer?: ParamsSerializer | ParamsSerializerOptions
 ): string {
+  if (pathParams) path = fillPathParams(path, pathParams);
+
   const isAbsolute = /^https?:\/\//i.test(path);
 
   if (!isAbsolute && !baseUrl) {
@@ -20,13 +63,7 @@ function buildUrl(
         baseUrl!.endsWith("/") ? baseUrl! : baseUrl! + "/"
       );
 
-  if (params) {
-    for (const [k, v] of Object.entries(params)) {
-      if (v != null) {
-        url.searchParams.set(k, String(v));
-      }
-    }
-  }
+  if (params) appendQuery(url, params, paramsSerializer);
 
   return url.toString();
 }
@@ -40,20 +77,20 @@ function mergeHeaders(...inputs: (HeadersInit | undefined)[]): Headers {
   return h;
 }
 
-async function parseResponse(res: Response): Promise<unknown> {
-  const ct = res.headers.get("content-type") ?? "";
-  if (ct.includes("json")) {
-    try {
-      return await res.json();
-    } catch {
-      return null;
-    }
-  }
+/**
+ * `fetch` that rejects with a `NetworkError` when the request fails without a response.
+ * Aborts keep the signal's reason.
+ */
+async function sendRequest(
+  request: Request,
+  fetchImpl: typeof fetch = fetch
+): Promise<Response> {
   try {
-    return await res.text();
-  } catch {
-    return null;
+    return await fetchImpl(request);
+  } catch (err) {
+    if (request.signal.aborted) throw request.signal.reason;
+    throw new NetworkError(err);
   }
 }
 
-export { buildUrl, mergeHeaders, parseResponse };
+export { buildUrl, fillPathParams, mergeHeaders, sendRequest };
@@ -1,3 +1,9 @@
 export * from "./env.js";
 export * from "./fetchHelpers.js";
 export * from "./shapers.js";
+export * from "./cookies.js";
+export * from "./signals.js";
+export * from "./body.js";
+export * from "./parsers.js";
+export * from "./config.js";
+export * from "./query.js";
@@ -0,0 +1,115 @@
+import type { ResponseParsers, ResponseType } from "../types.js";
+
+// Statuses that never carry a body
+const EMPTY_STATUSES = [204, 205, 304];
+
+function mediaTypeOf(res: Response): string {
+  return (res.headers.get("content-type") ?? "")
+    .split(";")[0]
+    .trim()
+    .toLowerCase();
+}
+
+function isTextual(type: string): boolean {
+  return (
+    type === "" ||
+    type.startsWith("text/") ||
+    type.endsWith("xml") ||
+    type === "application/javascript" ||
+    type === "application/x-www-form-urlencoded"
+  );
+}
+
+async function parseJson(res: Response): Promise<unknown> {
+  try {
+    return await res.json();
+  } catch {
+    return null;
+  }
+}
+
+async function parseNdjson(res: Response): Promise<unknown[] | null> {
+  try {
+    return (await res.text())
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line));
+  } catch {
+    return null;
+  }
+}
+
+async function parseText(res: Response): Promise<string | null> {
+  try {
+    return await res.text();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parses by content-type: user parsers first (exact media type, then `type/*`),
+ * then JSON (including `+json`), NDJSON, multipart, text and XML, and a Blob for anything binary.
+ */
+async function parseByContentType(
+  res: Response,
+  parsers?: ResponseParsers
+): Promise<unknown> {
+  const type = mediaTypeOf(res);
+
+  const custom = parsers?.[type] ?? parsers?.[`${type.split("/")[0]}/*`];
+  if (custom) return custom(res);
+
+  if (type === "application/x-ndjson" || type === "application/jsonl") {
+    return parseNdjson(res);
+  }
+  if (type.endsWith("json")) return parseJson(res);
+  if (type === "multipart/form-data") return res.formData();
+  if (isTextual(type)) return parseText(res);
+
+  return res.blob();
+}
+
+/**
+ * Reads a response body.
+ * Empty responses (204, 205, 304 and HEAD) resolve to `undefined` without reading.
+ */
+async function parseResponse(
+  res: Response,
+  options: {
+    method?: string;
+    responseType?: ResponseType;
+    parsers?: ResponseParsers;
+  } = {}
+): Promise<unknown> {
+  const { method, responseType, parsers } = options;
+
+  if (
+    EMPTY_STATUSES.includes(res.status) ||
+    method?.toUpperCase() === "HEAD" ||
+    responseType === "none"
+  ) {
+    // Not awaited, cancelling a deduped clone only settles once every clone is done
+    res.body?.cancel().catch(() => {});
+    return undefined;
+  }
+
+  switch (responseType) {
+    case "json":
+      return parseJson(res);
+    case "text":
+      return res.text();
+    case "blob":
+      return res.blob();
+    case "arrayBuffer":
+      return res.arrayBuffer();
+    case "formData":
+      return res.formData();
+    case "stream":
+      return res.body;
+    default:
+      return parseByContentType(res, parsers);
+  }
+}
+
+export { parseResponse };
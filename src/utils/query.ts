@@ -0,0 +1,104 @@
+import type {
+  ParamsSerializer,
+  ParamsSerializerOptions,
+  QueryParams,
+  QueryValue,
+} from "../types.js";
+
+function isPlainObject(value: unknown): value is Record<string, QueryValue> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+/**
+ * Flattens query params into key/value pairs.
+ * - `null` and `undefined` values are skipped
+ * - Dates are sent as ISO strings, unless `serializeDate` is given
+ * - Nested objects use brackets, `{ a: { b: 1 } }` → `a[b]=1`
+ * - Arrays follow `arrayFormat`, `repeat` by default
+ */
+function toQueryPairs(
+  params: QueryParams,
+  options: ParamsSerializerOptions = {}
+): [string, string][] {
+  const {
+    arrayFormat = "repeat",
+    serializeDate = (date: Date) => date.toISOString(),
+  } = options;
+  const pairs: [string, string][] = [];
+
+  const scalar = (value: QueryValue) =>
+    value instanceof Date ? serializeDate(value) : String(value);
+
+  function add(key: string, value: QueryValue) {
+    if (value == null) return;
+
+    if (Array.isArray(value)) {
+      const items = value.filter((item) => item != null);
+      if (arrayFormat === "comma") {
+        if (items.length) pairs.push([key, items.map(scalar).join(",")]);
+        return;
+      }
+      items.forEach((item, i) => {
+        const itemKey =
+          arrayFormat === "brackets"
+            ? `${key}[]`
+            : arrayFormat === "index" || isPlainObject(item)
+            ? `${key}[${i}]`
+            : key;
+        add(itemKey, item);
+      });
+      return;
+    }
+
+    if (isPlainObject(value)) {
+      for (const [k, v] of Object.entries(value)) add(`${key}[${k}]`, v);
+      return;
+    }
+
+    pairs.push([key, scalar(value)]);
+  }
+
+  for (const [key, value] of Object.entries(params)) add(key, value);
+  return pairs;
+}
+
+/**
+ * Drops the URL's params named in `keys`
+ */
+function deleteParams(url: URL, keys: Iterable<string>): void {
+  for (const key of new Set(keys)) {
+    if (url.searchParams.has(key)) url.searchParams.delete(key);
+  }
+}
+
+/**
+ * Adds `params` to the URL's query string. Params already in it are kept,
+ * unless `params` has a value for the same name.
+ */
+function appendQuery(
+  url: URL,
+  params: QueryParams,
+  serializer?: ParamsSerializer | ParamsSerializerOptions
+): void {
+  if (typeof serializer === "function") {
+    const query = serializer(params).replace(/^\?/, "");
+    if (!query) return;
+    deleteParams(url, new URLSearchParams(query).keys());
+    url.search = url.search ? `${url.search}&${query}` : query;
+    return;
+  }
+
+  const pairs = toQueryPairs(params, serializer);
+  deleteParams(
+    url,
+    pairs.map(([key]) => key)
+  );
+  for (const [key, value] of pairs) url.searchParams.append(key, value);
+}
+
+export { toQueryPairs, appendQuery };
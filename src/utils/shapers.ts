@@ -4,13 +4,14 @@ export function createStandardShaper(): FullResponseShaper<
   StandardResponse<any>
 > {
   return {
-    success({ data, response }) {
+    success({ data, response, attempts }) {
       return {
         ok: true,
         status: response.status,
         data,
         headers: response.headers,
         raw: response,
+        attempts,
       };
     },
 
@@ -21,15 +22,19 @@ export function createStandardShaper(): FullResponseShaper<
         message: ctx.message,
         data: ctx.parsedBody,
         raw: ctx.raw,
+        reason: ctx.reason,
+        issues: ctx.reason === "validation" ? ctx.issues : undefined,
+        attempts: ctx.attempts,
       };
     },
 
-    redirect({ status, location }) {
+    redirect({ status, location, opaque }) {
       return {
         ok: false,
         redirected: true,
         status,
         location,
+        opaque,
       };
     },
   };
@@ -0,0 +1,37 @@
+import { AbortError, TimeoutError } from "../types.js";
+
+export interface RequestSignal {
+  signal: AbortSignal;
+  /** Stops the timeout and detaches from the caller's signal */
+  clear(): void;
+}
+
+/**
+ * Combines the caller's signal with a timeout.
+ * The signal aborts with a `TimeoutError` or an `AbortError` wrapping the caller's reason.
+ */
+function createRequestSignal(
+  signal?: AbortSignal | null,
+  timeout?: number
+): RequestSignal {
+  const controller = new AbortController();
+
+  const onAbort = () => controller.abort(new AbortError(signal!.reason));
+  if (signal?.aborted) onAbort();
+  else signal?.addEventListener("abort", onAbort, { once: true });
+
+  const timer =
+    timeout != null && timeout > 0
+      ? setTimeout(() => controller.abort(new TimeoutError(timeout)), timeout)
+      : undefined;
+
+  return {
+    signal: controller.signal,
+    clear() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
+}
+
+export { createRequestSignal };
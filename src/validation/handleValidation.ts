@@ -0,0 +1,79 @@
+import type {
+  Schema,
+  StandardSchemaV1,
+  SafeParseSchema,
+  ValidationIssue,
+  ValidationResult,
+} from "../types.js";
+
+function isStandardSchema(schema: object): schema is StandardSchemaV1 {
+  return "~standard" in schema;
+}
+
+function isSafeParseSchema(schema: object): schema is SafeParseSchema {
+  return typeof (schema as SafeParseSchema).safeParse === "function";
+}
+
+function toPath(
+  path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>
+): PropertyKey[] | undefined {
+  return path?.map((p) => (typeof p === "object" ? p.key : p));
+}
+
+/**
+ * Normalizes whatever a schema library threw or returned into a list of issues.
+ */
+function toIssues(error: unknown): ValidationIssue[] {
+  const issues = (error as { issues?: unknown })?.issues;
+  if (Array.isArray(issues)) {
+    return issues.map((issue) => ({
+      message: String(issue?.message ?? "Invalid value"),
+      path: toPath(issue?.path),
+    }));
+  }
+
+  return [{ message: error instanceof Error ? error.message : String(error) }];
+}
+
+async function validateSchema<T>(
+  schema: Schema<T>,
+  data: unknown
+): Promise<ValidationResult<T>> {
+  if (isStandardSchema(schema)) {
+    const result = await schema["~standard"].validate(data);
+    if (result.issues) {
+      return {
+        issues: result.issues.map((issue) => ({
+          message: issue.message,
+          path: toPath(issue.path),
+        })),
+      };
+    }
+    return { value: result.value as T };
+  }
+
+  if (isSafeParseSchema(schema)) {
+    const result = schema.safeParse(data);
+    return result.success
+      ? { value: result.data as T }
+      : { issues: toIssues(result.error) };
+  }
+
+  try {
+    return { value: schema.parse(data) };
+  } catch (err) {
+    return { issues: toIssues(err) };
+  }
+}
+
+function formatIssues(issues: ValidationIssue[]): string {
+  return issues
+    .map((issue) =>
+      issue.path?.length
+        ? `${issue.path.map(String).join(".")}: ${issue.message}`
+        : issue.message
+    )
+    .join("; ");
+}
+
+export { validateSchema, formatIssues };
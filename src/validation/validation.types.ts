@@ -0,0 +1,78 @@
+// ============================================================================
+// Standard Schema (https://standardschema.dev), implemented by Zod, Valibot, ArkType
+// ============================================================================
+
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | {
+      readonly issues: ReadonlyArray<{
+        readonly message: string;
+        readonly path?: ReadonlyArray<
+          PropertyKey | { readonly key: PropertyKey }
+        >;
+      }>;
+    };
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/** Throws on invalid data */
+export interface ParseSchema<Output = unknown> {
+  parse(data: unknown): Output;
+}
+
+/** Returns a result instead of throwing (Zod style) */
+export interface SafeParseSchema<Output = unknown> {
+  safeParse(
+    data: unknown
+  ): { success: true; data: Output } | { success: false; error: unknown };
+}
+
+/**
+ * Any supported schema. Standard Schema is preferred, then `safeParse`, then `parse`.
+ */
+export type Schema<Output = unknown> =
+  | StandardSchemaV1<any, Output>
+  | SafeParseSchema<Output>
+  | ParseSchema<Output>;
+
+/**
+ * Schema for request bodies. Standard Schemas also type the body from their input type.
+ */
+export type BodySchema<Input = unknown> =
+  | StandardSchemaV1<Input, unknown>
+  | SafeParseSchema<unknown>
+  | ParseSchema<unknown>;
+
+export type InferSchemaInput<S> = S extends StandardSchemaV1<infer I, any>
+  ? I
+  : unknown;
+
+export type InferSchemaOutput<S> = S extends StandardSchemaV1<any, infer O>
+  ? O
+  : S extends SafeParseSchema<infer O>
+  ? O
+  : S extends ParseSchema<infer O>
+  ? O
+  : unknown;
+
+export interface ValidationIssue {
+  message: string;
+  path?: PropertyKey[];
+}
+
+export type ValidationResult<T> =
+  | { value: T; issues?: undefined }
+  | { issues: ValidationIssue[] };
@@ -0,0 +1,247 @@
+import { describe, it, expect, assert, beforeEach, vi } from "vitest";
+import { createFetchClient as createRemixClient } from "../src/remix";
+import { createFetchClient as createSvelteKitClient } from "../src/sveltekit";
+import { createFetchClient as createExpressClient } from "../src/express";
+import { NetworkError, RedirectError } from "../src/types";
+
+// ============================================================================
+// Mocks & Helpers
+// ============================================================================
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const auth = {
+  server: {
+    enabled: true,
+    cookies: ({ cookieStore }: { cookieStore: any }) => ({
+      session: cookieStore.get("session")?.value ?? "",
+    }),
+  },
+};
+
+function lastRequest(): Request {
+  return mockFetch.mock.calls.at(-1)![0] as Request;
+}
+
+function redirectResponse(location: string, status = 302) {
+  return new Response(null, { status, headers: { location } });
+}
+
+function incomingRequest(headers: Record<string, string> = {}) {
+  return new Request("https://app.example.com/page", {
+    headers: {
+      cookie: "session=a%20b; other=1",
+      "accept-language": "fr",
+      "x-internal": "secret",
+      ...headers,
+    },
+  });
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("Framework adapters", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    // @ts-ignore
+    delete global.window;
+    mockFetch.mockImplementation(async () => new Response("{}"));
+  });
+
+  describe("Remix / React Router", () => {
+    it("reads cookies and forwards headers from the request", async () => {
+      const api = createRemixClient({
+        baseUrl: "https://api.example.com",
+        auth,
+      });
+
+      await api(incomingRequest()).get("/me");
+
+      const req = lastRequest();
+      expect(req.headers.get("cookie")).toBe("session=a%20b");
+      expect(req.headers.get("accept-language")).toBe("fr");
+      expect(req.headers.get("x-internal")).toBeNull();
+    });
+
+    it("lets client headers and forwardHeaders override the defaults", async () => {
+      const api = createRemixClient({
+        baseUrl: "https://api.example.com",
+        headers: { "accept-language": "en" },
+        forwardHeaders: ["accept-language", "x-internal"],
+      });
+
+      await api(incomingRequest()).get("/me");
+
+      expect(lastRequest().headers.get("accept-language")).toBe("en");
+      expect(lastRequest().headers.get("x-internal")).toBe("secret");
+    });
+
+    it("returns the same client for the same request", () => {
+      const api = createRemixClient();
+      const request = incomingRequest();
+
+      expect(api(request)).toBe(api(request));
+      expect(api(request)).not.toBe(api(incomingRequest()));
+    });
+
+    it("throws a redirect Response for server redirects", async () => {
+      mockFetch.mockImplementation(async () => redirectResponse("/login", 303));
+      const api = createRemixClient({ baseUrl: "https://api.example.com" });
+
+      const thrown: unknown = await api(incomingRequest())
+        .get("/me")
+        .catch((e) => e);
+
+      assert.instanceOf(thrown, Response);
+      expect(thrown.status).toBe(303);
+      expect(thrown.headers.get("location")).toBe("/login");
+    });
+  });
+
+  describe("SvelteKit", () => {
+    function createEvent() {
+      const jar: Record<string, string> = { session: "abc" };
+      return {
+        request: incomingRequest(),
+        cookies: { get: (name: string) => jar[name] },
+        fetch: vi.fn<typeof fetch>(async () => new Response("{}")),
+      };
+    }
+
+    it("sends requests with event.fetch and event.cookies", async () => {
+      const api = createSvelteKitClient({
+        baseUrl: "https://api.example.com",
+        auth,
+      });
+      const event = createEvent();
+
+      await api(event).get("/me");
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      const req = event.fetch.mock.calls[0][0] as Request;
+      expect(req.headers.get("cookie")).toBe("session=abc");
+      expect(req.headers.get("accept-language")).toBe("fr");
+    });
+
+    it("runs client middleware before event.fetch", async () => {
+      const api = createSvelteKitClient({
+        middleware: [
+          (ctx, next) => {
+            ctx.request.headers.set("x-seen", "1");
+            return next();
+          },
+        ],
+      });
+      const event = createEvent();
+
+      await api(event).get("https://api.example.com/me");
+
+      const req = event.fetch.mock.calls[0][0] as Request;
+      expect(req.headers.get("x-seen")).toBe("1");
+    });
+
+    it("calls SvelteKit's redirect() for server redirects", async () => {
+      const redirect = vi.fn((status: number, location: string): never => {
+        throw { status, location };
+      });
+      const api = createSvelteKitClient({
+        baseUrl: "https://api.example.com",
+        loadKit: () => ({ redirect }),
+      });
+      const event = createEvent();
+      event.fetch.mockImplementation(async () => redirectResponse("/login"));
+
+      await expect(api(event).get("/me")).rejects.toEqual({
+        status: 302,
+        location: "/login",
+      });
+      expect(redirect).toHaveBeenCalledWith(302, "/login");
+    });
+
+    it("turns event.fetch failures into network errors", async () => {
+      const api = createSvelteKitClient({ baseUrl: "https://api.example.com" });
+      const event = createEvent();
+      event.fetch.mockRejectedValue(new TypeError("fetch failed"));
+
+      expect(await api(event).safeGet("/me")).toMatchObject({
+        ok: false,
+        status: 0,
+        reason: "network",
+      });
+      await expect(api(event).get("/me")).rejects.toBeInstanceOf(NetworkError);
+    });
+  });
+
+  describe("Express", () => {
+    function createReqRes() {
+      const req = {
+        headers: {
+          cookie: "session=abc",
+          authorization: "Bearer t",
+          host: "app.example.com",
+        },
+      };
+      const res = { headersSent: false, redirect: vi.fn() };
+      return { req, res };
+    }
+
+    it("reads cookies and forwards headers from req", async () => {
+      const api = createExpressClient({
+        baseUrl: "https://api.example.com",
+        auth,
+      });
+      const { req, res } = createReqRes();
+
+      await api(req, res).get("/me");
+
+      const sent = lastRequest();
+      expect(sent.headers.get("cookie")).toBe("session=abc");
+      expect(sent.headers.get("authorization")).toBeNull();
+      expect(sent.headers.get("host")).toBeNull();
+    });
+
+    it("only forwards authorization when listed in forwardHeaders", async () => {
+      const api = createExpressClient({
+        baseUrl: "https://api.example.com",
+        forwardHeaders: ["authorization"],
+      });
+      const { req, res } = createReqRes();
+
+      await api(req, res).get("/me");
+
+      expect(lastRequest().headers.get("authorization")).toBe("Bearer t");
+    });
+
+    it("calls res.redirect() and throws a RedirectError", async () => {
+      mockFetch.mockImplementation(async () => redirectResponse("/login", 307));
+      const api = createExpressClient({ baseUrl: "https://api.example.com" });
+      const { req, res } = createReqRes();
+
+      const err = await api(req, res)
+        .get("/me")
+        .catch((e) => e);
+
+      expect(res.redirect).toHaveBeenCalledWith(307, "/login");
+      expect(err).toBeInstanceOf(RedirectError);
+      expect(err).toMatchObject({ status: 307, location: "/login" });
+    });
+
+    it("keeps a custom onServerRedirect", async () => {
+      mockFetch.mockImplementation(async () => redirectResponse("/login"));
+      const onServerRedirect = vi.fn(() => {
+        throw new Error("custom");
+      });
+      const api = createExpressClient({
+        baseUrl: "https://api.example.com",
+        redirects: { onServerRedirect },
+      });
+      const { req, res } = createReqRes();
+
+      await expect(api(req, res).get("/me")).rejects.toThrow("custom");
+      expect(res.redirect).not.toHaveBeenCalled();
+    });
+  });
+});
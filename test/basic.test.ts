@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { createFetchClient } from "../src/createApiSingleton";
+import * as entry from "../src/index";
 
 describe("basic fetch client usage", () => {
   beforeEach(() => {
@@ -101,4 +102,22 @@ describe("basic fetch client usage", () => {
       })
     );
   });
+
+  it("exports the error classes from the package entry", async () => {
+    global.fetch = vi.fn(async () => {
+      throw new TypeError("fetch failed");
+    }) as any;
+
+    const api = entry.createFetchClient({ baseUrl: "https://example.com" });
+    const err = await api.get("/down").catch((e) => e);
+
+    expect(err).toBeInstanceOf(entry.NetworkError);
+    expect(entry).toMatchObject({
+      FetchError: expect.any(Function),
+      TimeoutError: expect.any(Function),
+      AbortError: expect.any(Function),
+      ValidationError: expect.any(Function),
+      RedirectError: expect.any(Function),
+    });
+  });
 });
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createFetchClient } from "../src/createClient";
+
+// ============================================================================
+// Mocks & Helpers
+// ============================================================================
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function lastRequest(): Request {
+  return mockFetch.mock.calls.at(-1)![0] as Request;
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("Request body serialization", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockFetch.mockImplementation(async () => new Response("{}"));
+  });
+
+  const client = createFetchClient({ baseUrl: "https://example.com" });
+
+  it("serializes plain objects as JSON", async () => {
+    await client.post("/json", { body: { a: 1 } });
+
+    expect(lastRequest().headers.get("content-type")).toBe("application/json");
+    expect(await lastRequest().text()).toBe('{"a":1}');
+  });
+
+  it("sends FormData untouched with a multipart boundary", async () => {
+    const form = new FormData();
+    form.append("file", new Blob(["hello"], { type: "text/plain" }), "a.txt");
+
+    await client.post("/upload", { body: form });
+
+    const req = lastRequest();
+    expect(req.headers.get("content-type")).toMatch(
+      /^multipart\/form-data; boundary=/
+    );
+    expect((await req.formData()).get("file")).toBeInstanceOf(Blob);
+  });
+
+  it("sends URLSearchParams as a form post", async () => {
+    await client.post("/form", { body: new URLSearchParams({ a: "1" }) });
+
+    const req = lastRequest();
+    expect(req.headers.get("content-type")).toContain(
+      "application/x-www-form-urlencoded"
+    );
+    expect(await req.text()).toBe("a=1");
+  });
+
+  it("sends Blobs and ArrayBuffers untouched", async () => {
+    await client.put("/blob", {
+      body: new Blob(["abc"], { type: "image/png" }),
+    });
+    expect(lastRequest().headers.get("content-type")).toBe("image/png");
+    expect(await lastRequest().text()).toBe("abc");
+
+    await client.put("/bytes", { body: new Uint8Array([1, 2, 3]).buffer });
+    expect(lastRequest().headers.get("content-type")).toBeNull();
+    expect(new Uint8Array(await lastRequest().arrayBuffer())).toEqual(
+      new Uint8Array([1, 2, 3])
+    );
+  });
+
+  it("sends strings untouched", async () => {
+    await client.post("/text", {
+      body: "<xml/>",
+      headers: { "content-type": "application/xml" },
+    });
+
+    expect(await lastRequest().text()).toBe("<xml/>");
+  });
+
+  it("sends streams once without retrying", async () => {
+    mockFetch.mockImplementation(
+      async () => new Response("{}", { status: 503 })
+    );
+    const retrying = createFetchClient({
+      baseUrl: "https://example.com",
+      retry: { attempts: 3, delay: 0, methods: ["POST"] },
+    });
+
+    const stream = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode("chunk"));
+        controller.close();
+      },
+    });
+    await retrying.safePost("/stream", { body: stream });
+
+    expect(mockFetch).toHaveBeenCalledOnce();
+    expect(await lastRequest().text()).toBe("chunk");
+  });
+
+  it("uses custom serializers by content-type", async () => {
+    const msgpack = vi.fn(() => new Uint8Array([0x81]));
+    const custom = createFetchClient({
+      baseUrl: "https://example.com",
+      serializers: { "application/x-msgpack": msgpack },
+    });
+
+    await custom.post("/pack", {
+      body: { a: 1 },
+      headers: { "content-type": "application/x-msgpack" },
+    });
+
+    expect(msgpack).toHaveBeenCalledWith({ a: 1 });
+    expect(new Uint8Array(await lastRequest().arrayBuffer())).toEqual(
+      new Uint8Array([0x81])
+    );
+  });
+
+  it("encodes plain objects for form-urlencoded content-types", async () => {
+    await client.post("/form", {
+      body: { a: 1, b: "x y", skip: null },
+      headers: { "content-type": "application/x-www-form-urlencoded" },
+    });
+
+    expect(await lastRequest().text()).toBe("a=1&b=x+y");
+  });
+});
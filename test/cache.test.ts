@@ -0,0 +1,327 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createFetchClient } from "../src/createClient";
+import { createMemoryStore } from "../src/cache";
+import type { CacheEntry, CacheStore } from "../src/types";
+
+// ============================================================================
+// Mocks & Helpers
+// ============================================================================
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function setServerEnv(isServer: boolean) {
+  if (isServer) {
+    // @ts-ignore
+    delete global.window;
+  } else {
+    // @ts-ignore
+    global.window = {};
+  }
+}
+
+let version = 0;
+
+function respond(headers: Record<string, string> = {}) {
+  mockFetch.mockImplementation(async (req: Request) => {
+    if (headers.etag && req.headers.get("if-none-match") === headers.etag) {
+      return new Response(null, { status: 304, headers });
+    }
+    return new Response(JSON.stringify({ version: ++version }), {
+      headers: { "content-type": "application/json", ...headers },
+    });
+  });
+}
+
+function lastRequest(): Request {
+  return mockFetch.mock.calls.at(-1)![0] as Request;
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("Response cache", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    setServerEnv(false);
+    version = 0;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("serves GET responses within the ttl", async () => {
+    respond();
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      cache: { ttl: 1000 },
+    });
+
+    expect(await client.get("/a")).toEqual({ version: 1 });
+    expect(await client.safeGet("/a")).toMatchObject({
+      ok: true,
+      data: { version: 1 },
+    });
+    expect(mockFetch).toHaveBeenCalledOnce();
+
+    vi.advanceTimersByTime(1001);
+    expect(await client.get("/a")).toEqual({ version: 2 });
+  });
+
+  it("is opt-in and never caches other methods", async () => {
+    respond({ "cache-control": "max-age=60" });
+    const plain = createFetchClient({ baseUrl: "https://example.com" });
+    const cached = createFetchClient({
+      baseUrl: "https://example.com",
+      cache: true,
+    });
+
+    await plain.get("/a");
+    await plain.get("/a");
+    await cached.post("/a");
+    await cached.post("/a");
+
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+  });
+
+  it("honors Cache-Control max-age and no-store", async () => {
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      cache: true,
+    });
+
+    respond({ "cache-control": "max-age=60" });
+    await client.get("/fresh");
+    await client.get("/fresh");
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    respond({ "cache-control": "no-store, max-age=60" });
+    await client.get("/private");
+    await client.get("/private");
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("only serves entries to requests with the same Vary headers", async () => {
+    respond({ "cache-control": "max-age=60", vary: "Accept-Language" });
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      cache: true,
+    });
+    const lang = (value: string) => ({ headers: { "accept-language": value } });
+
+    expect(await client.get("/a", lang("en"))).toEqual({ version: 1 });
+    expect(await client.get("/a", lang("en"))).toEqual({ version: 1 });
+    expect(await client.get("/a", lang("fr"))).toEqual({ version: 2 });
+    expect(await client.get("/a", lang("fr"))).toEqual({ version: 2 });
+    expect(await client.get("/a")).toEqual({ version: 3 });
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("revalidates with If-None-Match and turns 304 into cached data", async () => {
+    respond({ etag: '"v1"' });
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      cache: true,
+    });
+
+    expect(await client.get("/a")).toEqual({ version: 1 });
+    const res = await client.safeGet("/a");
+
+    expect(lastRequest().headers.get("if-none-match")).toBe('"v1"');
+    expect(res).toMatchObject({ ok: true, status: 200, data: { version: 1 } });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("never shares a revalidation with uncached requests", async () => {
+    respond({ etag: '"v1"' });
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      cache: { ttl: 100 },
+    });
+    await client.get("/a");
+    vi.advanceTimersByTime(200);
+
+    const slow = mockFetch.getMockImplementation()!;
+    mockFetch.mockImplementation(async (req: Request) => {
+      await new Promise((r) => setTimeout(r, 10));
+      return slow(req);
+    });
+    const [revalidated, uncached] = await Promise.all([
+      client.safeGet("/a"),
+      client.safeGet("/a", { cache: false }),
+    ]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(revalidated).toMatchObject({ ok: true, data: { version: 1 } });
+    expect(uncached).toMatchObject({ ok: true, status: 200 });
+  });
+
+  it("serves stale data while revalidating in the background", async () => {
+    respond();
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      cache: { ttl: 100, staleWhileRevalidate: 1000 },
+    });
+
+    await client.get("/a");
+    vi.advanceTimersByTime(200);
+
+    expect(await client.get("/a")).toEqual({ version: 1 });
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+    await vi.waitFor(async () =>
+      expect(await client.get("/a")).toEqual({ version: 2 })
+    );
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  describe("per request", () => {
+    it("overrides the ttl and key, or skips the cache", async () => {
+      respond();
+      const client = createFetchClient({ baseUrl: "https://example.com" });
+
+      await client.get("/me?t=1", { cache: { ttl: 1000, key: "me" } });
+      expect(
+        await client.get("/me?t=2", { cache: { ttl: 1000, key: "me" } })
+      ).toEqual({ version: 1 });
+
+      await client.get("/me?t=2", { cache: false });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("passes fetch cache modes through", async () => {
+      respond();
+      const client = createFetchClient({
+        baseUrl: "https://example.com",
+        cache: { ttl: 1000 },
+      });
+
+      await client.get("/a");
+      await client.get("/a", { cache: "no-store" });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(lastRequest().cache).toBe("no-store");
+    });
+  });
+
+  describe("invalidate()", () => {
+    it("drops entries by path, including query strings and sub-paths", async () => {
+      respond();
+      const client = createFetchClient({
+        baseUrl: "https://example.com/api",
+        cache: { ttl: 1000 },
+      });
+
+      await client.get("/users?page=1");
+      await client.get("/users/1");
+      await client.get("/orders");
+      await client.invalidate("/users");
+      await client.get("/users?page=1");
+      await client.get("/users/1");
+      await client.get("/orders");
+
+      expect(mockFetch).toHaveBeenCalledTimes(5);
+    });
+
+    it("drops entries matching a predicate", async () => {
+      respond();
+      const client = createFetchClient({
+        baseUrl: "https://example.com",
+        cache: { ttl: 1000 },
+      });
+
+      await client.get("/a");
+      await client.invalidate((entry) => entry.url.endsWith("/a"));
+      await client.get("/a");
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("on the server", () => {
+    beforeEach(() => setServerEnv(true));
+
+    it("keys entries by auth identity without storing credentials", async () => {
+      respond();
+      const store = createMemoryStore();
+      let session = "alice";
+      const client = createFetchClient({
+        baseUrl: "https://example.com",
+        cookies: { get: () => ({ value: session }) },
+        auth: {
+          server: { enabled: true, cookies: () => ({ session }) },
+        },
+        cache: { ttl: 1000, store },
+      });
+
+      expect(await client.get("/me")).toEqual({ version: 1 });
+      session = "bob";
+      expect(await client.get("/me")).toEqual({ version: 2 });
+      session = "alice";
+      expect(await client.get("/me")).toEqual({ version: 1 });
+
+      const keys = [...(await store.keys())];
+      expect(keys).toHaveLength(2);
+      expect(keys.join()).not.toMatch(/alice|bob/);
+    });
+  });
+
+  describe("stores", () => {
+    it("uses a custom store", async () => {
+      respond({ "cache-control": "max-age=60" });
+      const entries = new Map<string, CacheEntry>();
+      const store: CacheStore = {
+        get: async (key) => entries.get(key),
+        set: async (key, entry) => void entries.set(key, entry),
+        delete: async (key) => void entries.delete(key),
+        keys: async () => entries.keys(),
+      };
+      const client = createFetchClient({
+        baseUrl: "https://example.com",
+        cache: { store },
+      });
+
+      await client.get("/a");
+      await client.get("/a");
+
+      expect(mockFetch).toHaveBeenCalledOnce();
+      expect([...entries.values()][0]).toMatchObject({
+        url: "https://example.com/a",
+        body: '{"version":1}',
+      });
+    });
+
+    it("treats store failures as misses", async () => {
+      respond();
+      const client = createFetchClient({
+        baseUrl: "https://example.com",
+        cache: {
+          ttl: 1000,
+          store: {
+            get: () => Promise.reject(new Error("down")),
+            set: () => Promise.reject(new Error("down")),
+            delete: () => {},
+            keys: () => [],
+          },
+        },
+      });
+
+      expect(await client.get("/a")).toEqual({ version: 1 });
+      expect(await client.get("/a")).toEqual({ version: 2 });
+    });
+
+    it("evicts the least recently used entry", () => {
+      const store = createMemoryStore(2);
+      const entry = {} as CacheEntry;
+
+      store.set("a", entry);
+      store.set("b", entry);
+      store.get("a");
+      store.set("c", entry);
+
+      expect([...(store.keys() as string[])]).toEqual(["a", "c"]);
+    });
+  });
+});
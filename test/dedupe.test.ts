@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createFetchClient } from "../src/createClient";
+import { createInflightRequests } from "../src/dedupe";
+
+// ============================================================================
+// Mocks & Helpers
+// ============================================================================
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function setServerEnv(isServer: boolean) {
+  if (isServer) {
+    // @ts-ignore
+    delete global.window;
+  } else {
+    // @ts-ignore
+    global.window = {};
+  }
+}
+
+// Resolves on the next tick so concurrent calls overlap
+function delayedJson(body: any) {
+  return async () => {
+    await new Promise((r) => setTimeout(r, 5));
+    return new Response(JSON.stringify(body), {
+      headers: { "content-type": "application/json" },
+    });
+  };
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("In-flight request deduplication", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    setServerEnv(true);
+    mockFetch.mockImplementation(delayedJson({ id: 1 }));
+  });
+
+  it("collapses concurrent identical GETs into one network call", async () => {
+    const client = createFetchClient({ baseUrl: "https://example.com" });
+
+    const [a, b, c] = await Promise.all([
+      client.get<{ id: number }>("/me"),
+      client.get<{ id: number }>("/me"),
+      client.safeGet<{ id: number }>("/me"),
+    ]);
+
+    expect(mockFetch).toHaveBeenCalledOnce();
+    expect(a).toEqual({ id: 1 });
+    expect(b).toEqual({ id: 1 });
+    expect(a).not.toBe(b);
+    expect(c).toMatchObject({ ok: true, data: { id: 1 } });
+  });
+
+  it("sends sequential requests separately", async () => {
+    const client = createFetchClient({ baseUrl: "https://example.com" });
+
+    await client.get("/me");
+    await client.get("/me");
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not dedupe non-idempotent methods", async () => {
+    const client = createFetchClient({ baseUrl: "https://example.com" });
+
+    await Promise.all([client.post("/items"), client.post("/items")]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("can be disabled per request and per client", async () => {
+    const client = createFetchClient({ baseUrl: "https://example.com" });
+    await Promise.all([
+      client.get("/me"),
+      client.get("/me", { dedupe: false }),
+    ]);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+
+    const noDedupe = createFetchClient({
+      baseUrl: "https://example.com",
+      dedupe: false,
+    });
+    await Promise.all([noDedupe.get("/me"), noDedupe.get("/me")]);
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+  });
+
+  it("never shares results between different server cookies", async () => {
+    let user = 0;
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      auth: { server: { cookies: () => ({ sid: `user-${++user}` }) } },
+    });
+
+    await Promise.all([client.get("/me"), client.get("/me")]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("hands the original response to the last caller", async () => {
+    const inflight = createInflightRequests();
+    const response = new Response("{}");
+    const start = vi.fn(async () => {
+      await new Promise((r) => setTimeout(r, 5));
+      return { response, attempts: 1 };
+    });
+
+    const alone = await inflight.run("a", new AbortController().signal, start);
+    expect(alone.response).toBe(response);
+
+    const shared = new Response("{}");
+    start.mockResolvedValueOnce({ response: shared, attempts: 1 });
+    const [first, second] = await Promise.all([
+      inflight.run("b", new AbortController().signal, start),
+      inflight.run("b", new AbortController().signal, start),
+    ]);
+    expect(start).toHaveBeenCalledTimes(2);
+    expect(first.response).not.toBe(shared);
+    expect(second.response).toBe(shared);
+    expect(await first.response!.text()).toBe("{}");
+    expect(await second.response!.text()).toBe("{}");
+  });
+
+  it("keeps the shared request alive when one caller aborts", async () => {
+    const client = createFetchClient({ baseUrl: "https://example.com" });
+    const controller = new AbortController();
+
+    const aborted = client.safeGet("/me", { signal: controller.signal });
+    const kept = client.get("/me");
+    await new Promise((r) => setTimeout(r, 1));
+    controller.abort();
+
+    expect(await aborted).toMatchObject({ ok: false, reason: "aborted" });
+    expect(await kept).toEqual({ id: 1 });
+    expect(mockFetch).toHaveBeenCalledOnce();
+  });
+});
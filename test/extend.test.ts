@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createFetchClient } from "../src/createApiSingleton";
+import { AbortError } from "../src/types";
+
+// ============================================================================
+// Mocks & Helpers
+// ============================================================================
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function lastRequest(): Request {
+  return mockFetch.mock.calls.at(-1)![0] as Request;
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("client.extend()", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockFetch.mockImplementation(async () => new Response("{}"));
+  });
+
+  const api = createFetchClient({
+    baseUrl: "https://example.com/api",
+    headers: { "x-app": "web", "x-version": "1" },
+    auth: { token: { getToken: () => "secret", header: "x-token" } },
+  });
+
+  it("appends relative base URLs to the parent's", async () => {
+    await api.extend({ baseUrl: "/v2/" }).get("/users");
+    expect(lastRequest().url).toBe("https://example.com/api/v2/users");
+
+    await api
+      .extend({ baseUrl: "billing" })
+      .extend({ baseUrl: "invoices" })
+      .get("/1");
+    expect(lastRequest().url).toBe(
+      "https://example.com/api/billing/invoices/1"
+    );
+  });
+
+  it("replaces the base URL with an absolute one", async () => {
+    await api.extend({ baseUrl: "https://other.example.com" }).get("/ping");
+
+    expect(lastRequest().url).toBe("https://other.example.com/ping");
+  });
+
+  it("merges headers and auth with the parent's", async () => {
+    const admin = api.extend({
+      headers: { "x-version": "2" },
+      auth: { token: { scheme: "Token" } as any },
+    });
+
+    await admin.get("/me");
+
+    const { headers } = lastRequest();
+    expect(headers.get("x-app")).toBe("web");
+    expect(headers.get("x-version")).toBe("2");
+    expect(headers.get("x-token")).toBe("Token secret");
+  });
+
+  it("keeps the parent's error handlers and overrides them by key", async () => {
+    mockFetch.mockImplementation(
+      async () => new Response(null, { status: 500 })
+    );
+    const handleClientError = vi.fn();
+    const handleServerError = vi.fn();
+    const parent = createFetchClient({
+      baseUrl: "https://example.com",
+      errors: { handleClientError, handleServerError },
+    });
+    const childHandler = vi.fn();
+
+    await parent
+      .extend({ errors: { handleServerError: childHandler } })
+      .safeGet("/");
+
+    // Tests run on the server
+    expect(childHandler).toHaveBeenCalledOnce();
+    expect(handleServerError).not.toHaveBeenCalled();
+  });
+
+  it("runs parent middleware first", async () => {
+    const calls: string[] = [];
+    const parent = createFetchClient({
+      baseUrl: "https://example.com",
+      middleware: [(ctx, next) => (calls.push("parent"), next())],
+    });
+
+    await parent
+      .extend({ middleware: [(ctx, next) => (calls.push("child"), next())] })
+      .get("/");
+
+    expect(calls).toEqual(["parent", "child"]);
+  });
+
+  it("leaves the parent untouched", async () => {
+    api.extend({ baseUrl: "/v2", headers: { "x-app": "admin" } });
+
+    await api.get("/users");
+
+    expect(lastRequest().url).toBe("https://example.com/api/users");
+    expect(lastRequest().headers.get("x-app")).toBe("web");
+  });
+});
+
+describe("client.with()", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockFetch.mockImplementation(async (req: Request) => {
+      if (req.signal.aborted) throw req.signal.reason;
+      return new Response("{}");
+    });
+  });
+
+  const api = createFetchClient({
+    baseUrl: "https://example.com",
+    headers: { "x-app": "web" },
+  });
+
+  it("adds headers to every request, request headers win", async () => {
+    const scoped = api.with({ headers: { "x-tenant": "a", "x-trace": "1" } });
+
+    await scoped.post("/items", { headers: { "x-trace": "2" } });
+
+    const { headers } = lastRequest();
+    expect(headers.get("x-app")).toBe("web");
+    expect(headers.get("x-tenant")).toBe("a");
+    expect(headers.get("x-trace")).toBe("2");
+  });
+
+  it("merges nested scopes", async () => {
+    await api
+      .with({ headers: { "x-tenant": "a" } })
+      .with({ headers: { "x-user": "b" } })
+      .get("/");
+
+    expect(lastRequest().headers.get("x-tenant")).toBe("a");
+    expect(lastRequest().headers.get("x-user")).toBe("b");
+  });
+
+  it("aborts requests with the scoped signal", async () => {
+    const controller = new AbortController();
+    controller.abort("page left");
+
+    const res = await api.with({ signal: controller.signal }).safeGet("/");
+
+    expect(res).toMatchObject({ ok: false, reason: "aborted" });
+  });
+
+  it("still honors the request's own signal", async () => {
+    const scope = new AbortController();
+    const request = new AbortController();
+    request.abort();
+
+    const err = await api
+      .with({ signal: scope.signal })
+      .get("/", { signal: request.signal })
+      .then(
+        () => null,
+        (e) => e
+      );
+
+    expect(err).toBeInstanceOf(AbortError);
+  });
+});
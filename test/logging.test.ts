@@ -0,0 +1,293 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createFetchClient } from "../src/createClient";
+import {
+  ValidationError,
+  type ErrorLogEvent,
+  type LogEvent,
+} from "../src/types";
+
+// ============================================================================
+// Mocks & Helpers
+// ============================================================================
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function jsonResponse(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+function lastRequest(): Request {
+  return mockFetch.mock.calls.at(-1)![0] as Request;
+}
+
+function createLogged(config: Parameters<typeof createFetchClient>[0] = {}) {
+  const events: LogEvent[] = [];
+  const client = createFetchClient({
+    baseUrl: "https://example.com",
+    logger: (event) => void events.push(event),
+    ...config,
+  });
+  return { client, events };
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("Logging", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("emits start and response events with a shared request id", async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ ok: true }));
+    const { client, events } = createLogged();
+
+    await client.get("/users", { params: { page: 2 } });
+
+    expect(events.map((e) => e.type)).toEqual(["start", "response"]);
+    const [start, response] = events;
+    expect(start).toMatchObject({
+      method: "GET",
+      url: "https://example.com/users?page=2",
+    });
+    expect(start.requestId).toMatch(/^[0-9a-f]{16}$/);
+    expect(response).toMatchObject({
+      requestId: start.requestId,
+      status: 200,
+      attempts: 1,
+      duration: expect.any(Number),
+    });
+  });
+
+  it("redacts credential headers and configured headers", async () => {
+    mockFetch.mockResolvedValue(jsonResponse({}));
+    const events: LogEvent[] = [];
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      headers: {
+        authorization: "Bearer secret",
+        cookie: "session=abc",
+        "x-api-key": "key",
+        accept: "application/json",
+      },
+      logger: {
+        log: (event) => void events.push(event),
+        redactHeaders: ["X-Api-Key"],
+      },
+    });
+
+    await client.get("/me");
+
+    expect(events[0]).toMatchObject({
+      type: "start",
+      headers: {
+        authorization: "[REDACTED]",
+        cookie: "[REDACTED]",
+        "x-api-key": "[REDACTED]",
+        accept: "application/json",
+      },
+    });
+    // Only the log is redacted
+    expect(lastRequest().headers.get("authorization")).toBe("Bearer secret");
+  });
+
+  it("redacts configured body fields at any depth", async () => {
+    mockFetch.mockResolvedValue(jsonResponse({}));
+    const events: LogEvent[] = [];
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      logger: {
+        log: (event) => void events.push(event),
+        redactBody: ["password", "token"],
+      },
+    });
+
+    await client.post("/login", {
+      body: { user: "ana", password: "hunter2", devices: [{ token: "t" }] },
+    });
+
+    expect(events[0]).toMatchObject({
+      body: {
+        user: "ana",
+        password: "[REDACTED]",
+        devices: [{ token: "[REDACTED]" }],
+      },
+    });
+    expect(await lastRequest().json()).toMatchObject({ password: "hunter2" });
+  });
+
+  it("redacts bodies carried by validation errors", async () => {
+    const events: LogEvent[] = [];
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      logger: {
+        log: (event) => void events.push(event),
+        redactBody: ["password"],
+      },
+    });
+    const bodySchema = {
+      safeParse: () => ({
+        success: false as const,
+        error: { issues: [{ message: "Too short", path: ["password"] }] },
+      }),
+    };
+
+    const res = await client.safePost("/login", {
+      body: { user: "ana", password: "hunter2" },
+      bodySchema,
+    });
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    const [event] = events;
+    expect(event).toMatchObject({ type: "error", reason: "validation" });
+    const error = (event as ErrorLogEvent).error as ValidationError;
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.data).toEqual({ user: "ana", password: "[REDACTED]" });
+    expect(error.message).toContain("Too short");
+    // Only the log is redacted
+    expect(res).toMatchObject({ ok: false });
+    expect(JSON.stringify(events)).not.toContain("hunter2");
+  });
+
+  it("does not log native bodies", async () => {
+    mockFetch.mockResolvedValue(jsonResponse({}));
+    const { client, events } = createLogged();
+
+    await client.post("/upload", { body: new Blob(["secret"]) });
+
+    expect(events[0]).toMatchObject({ type: "start", body: undefined });
+  });
+
+  it("emits retry events before the final response", async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response(null, { status: 503 }))
+      .mockResolvedValueOnce(jsonResponse({}));
+    const { client, events } = createLogged({
+      retry: { attempts: 2, delay: 0 },
+    });
+
+    await client.get("/flaky");
+
+    expect(events.map((e) => e.type)).toEqual(["start", "retry", "response"]);
+    expect(events[1]).toMatchObject({ attempt: 1, status: 503, delay: 0 });
+    expect(events[2]).toMatchObject({ status: 200, attempts: 2 });
+  });
+
+  it("emits a single error event for HTTP errors", async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ error: "nope" }, 404));
+    const { client, events } = createLogged();
+
+    await expect(client.get("/missing")).rejects.toThrow();
+
+    expect(events.map((e) => e.type)).toEqual(["start", "error"]);
+    expect(events[1]).toMatchObject({
+      reason: "http",
+      status: 404,
+      message: "HTTP 404: ",
+      attempts: 1,
+    });
+  });
+
+  it("emits network errors", async () => {
+    mockFetch.mockRejectedValue(new TypeError("fetch failed"));
+    const { client, events } = createLogged();
+
+    await client.safeGet("/down");
+
+    expect(events.at(-1)).toMatchObject({
+      type: "error",
+      reason: "network",
+      status: undefined,
+    });
+  });
+
+  it("emits redirects before server handlers navigate", async () => {
+    // @ts-ignore
+    delete global.window;
+    mockFetch.mockResolvedValue(
+      new Response(null, { status: 302, headers: { location: "/login" } })
+    );
+    const { client, events } = createLogged({
+      redirects: {
+        onServerRedirect: () => {
+          throw new Error("NEXT_REDIRECT");
+        },
+      },
+    });
+
+    await expect(client.get("/me")).rejects.toThrow("NEXT_REDIRECT");
+
+    expect(events.map((e) => e.type)).toEqual(["start", "redirect"]);
+    expect(events[1]).toMatchObject({ status: 302, location: "/login" });
+  });
+
+  it("never fails requests when the logger throws", async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ a: 1 }));
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      logger: () => {
+        throw new Error("broken logger");
+      },
+    });
+
+    expect(await client.get("/x")).toEqual({ a: 1 });
+  });
+});
+
+describe("Trace context", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockFetch.mockImplementation(async () => jsonResponse({}));
+  });
+
+  it("sends a traceparent with the request id as parent id", async () => {
+    const { client, events } = createLogged({ traceparent: true });
+
+    await client.get("/x");
+
+    const header = lastRequest().headers.get("traceparent");
+    expect(header).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+    expect(header!.split("-")[2]).toBe(events[0].requestId);
+    expect(events[0]).toMatchObject({
+      headers: { traceparent: header },
+    });
+  });
+
+  it("uses the active context and keeps headers that are already set", async () => {
+    const active = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      traceparent: () => active,
+    });
+
+    await client.get("/x");
+    expect(lastRequest().headers.get("traceparent")).toBe(active);
+
+    await client.get("/x", { headers: { traceparent: "custom" } });
+    expect(lastRequest().headers.get("traceparent")).toBe("custom");
+  });
+
+  it("is not sent by default", async () => {
+    const client = createFetchClient({ baseUrl: "https://example.com" });
+
+    await client.get("/x");
+
+    expect(lastRequest().headers.has("traceparent")).toBe(false);
+  });
+
+  it("still dedupes concurrent requests", async () => {
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      traceparent: true,
+    });
+
+    await Promise.all([client.get("/x"), client.get("/x")]);
+
+    expect(mockFetch).toHaveBeenCalledOnce();
+  });
+});
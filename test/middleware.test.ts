@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createFetchClient } from "../src/createClient";
+import type { Middleware } from "../src/types";
+
+// ============================================================================
+// Mocks & Helpers
+// ============================================================================
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function mockResponse(body: any, init: ResponseInit = {}) {
+  return new Response(JSON.stringify(body), {
+    ...init,
+    headers: { "content-type": "application/json", ...init.headers },
+  });
+}
+
+function lastRequest(): Request {
+  return mockFetch.mock.calls.at(-1)![0] as Request;
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("Middleware", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockFetch.mockImplementation(async () => mockResponse({ id: 1 }));
+  });
+
+  it("runs middleware in order around the request", async () => {
+    const calls: string[] = [];
+    const track =
+      (name: string): Middleware =>
+      async (_, next) => {
+        calls.push(`${name}:before`);
+        const res = await next();
+        calls.push(`${name}:after`);
+        return res;
+      };
+
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      middleware: [track("a"), track("b")],
+    });
+    await client.get("/me");
+
+    expect(calls).toEqual(["a:before", "b:before", "b:after", "a:after"]);
+  });
+
+  it("can rewrite headers and the URL before fetch", async () => {
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      middleware: [
+        (ctx, next) => {
+          ctx.request.headers.set("x-trace-id", "abc");
+          return next();
+        },
+        (ctx, next) => {
+          ctx.request = new Request(
+            ctx.request.url.replace("/v1/", "/v2/"),
+            ctx.request
+          );
+          return next();
+        },
+      ],
+    });
+    await client.get("/v1/users");
+
+    expect(lastRequest().url).toBe("https://example.com/v2/users");
+    expect(lastRequest().headers.get("x-trace-id")).toBe("abc");
+  });
+
+  it("can short-circuit with a synthetic Response", async () => {
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      middleware: [async () => mockResponse({ cached: true })],
+    });
+
+    expect(await client.get("/me")).toEqual({ cached: true });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("can post-process the response before it is parsed", async () => {
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      middleware: [
+        async (_, next) => {
+          const res = await next();
+          const data = await res.json();
+          return mockResponse({ ...data, enriched: true });
+        },
+      ],
+    });
+
+    expect(await client.get("/me")).toEqual({ id: 1, enriched: true });
+  });
+
+  it("feeds middleware responses into the error pipeline", async () => {
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      middleware: [async () => mockResponse({}, { status: 403 })],
+    });
+
+    expect(await client.safeGet("/me")).toMatchObject({
+      ok: false,
+      status: 403,
+    });
+  });
+
+  it("rejects when next() is called more than once", async () => {
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      middleware: [
+        async (_, next) => {
+          await next();
+          return next();
+        },
+      ],
+    });
+
+    await expect(client.get("/me")).rejects.toThrow(
+      "next() called multiple times"
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createFetchClient } from "../src/createClient";
+import { NetworkError } from "../src/types";
+
+// ============================================================================
+// Mocks & Helpers
+// ============================================================================
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function setServerEnv(isServer: boolean) {
+  if (isServer) {
+    // @ts-ignore
+    delete global.window;
+  } else {
+    // @ts-ignore
+    global.window = {};
+  }
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("Network errors", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    setServerEnv(true);
+    mockFetch.mockRejectedValue(new TypeError("fetch failed"));
+  });
+
+  it("safe methods return a shaped error with status 0 instead of throwing", async () => {
+    const client = createFetchClient({ baseUrl: "https://example.com" });
+
+    const res = await client.safeGet("/me");
+
+    expect(res).toMatchObject({
+      ok: false,
+      status: 0,
+      reason: "network",
+      message: "Network request failed: fetch failed",
+    });
+  });
+
+  it("unsafe methods throw a NetworkError wrapping the original error", async () => {
+    const client = createFetchClient({ baseUrl: "https://example.com" });
+
+    const err = await client.get("/me").then(
+      () => null,
+      (e) => e
+    );
+
+    expect(err).toBeInstanceOf(NetworkError);
+    expect(err.cause).toBeInstanceOf(TypeError);
+  });
+
+  it("runs the global error handlers and onError", async () => {
+    const handleClientError = vi.fn();
+    const handleServerError = vi.fn();
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      errors: { handleClientError, handleServerError },
+    });
+
+    await client.safeGet("/me");
+    expect(handleServerError).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 0, reason: "network" }),
+      expect.objectContaining({ url: "https://example.com/me" })
+    );
+
+    setServerEnv(false);
+    const recovered = await client.get("/me", {
+      onError: () => ({ offline: true }),
+    });
+    expect(handleClientError).toHaveBeenCalledOnce();
+    expect(recovered).toEqual({ offline: true });
+  });
+
+  it("passes a response-less context to custom error shapers", async () => {
+    const error = vi.fn((ctx) => ({
+      ok: false as const,
+      status: ctx.status,
+      message: ctx.message,
+    }));
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      responseFormat: { success: (ctx) => ctx.data, error },
+    });
+
+    await client.safeGet("/me");
+
+    expect(error).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 0,
+        reason: "network",
+        error: expect.any(NetworkError),
+      })
+    );
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createFetchClient, type NextModules } from "../src/next";
+
+// ============================================================================
+// Mocks & Helpers
+// ============================================================================
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function setServerEnv(isServer: boolean) {
+  if (isServer) {
+    // @ts-ignore
+    delete global.window;
+  } else {
+    // @ts-ignore
+    global.window = {};
+  }
+}
+
+function createNext() {
+  const jar = new Map<string, string>([["session", "abc"]]);
+  const store = {
+    get: (name: string) =>
+      jar.has(name) ? { value: jar.get(name)! } : undefined,
+    set: vi.fn(),
+  };
+  const next = {
+    cookies: vi.fn(async () => store),
+    redirect: vi.fn((url: string): never => {
+      throw new Error(`NEXT_REDIRECT ${url}`);
+    }),
+  } satisfies NextModules;
+
+  return { next, store, loadNext: () => next };
+}
+
+function lastRequest(): Request {
+  return mockFetch.mock.calls.at(-1)![0] as Request;
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("Next.js adapter", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    setServerEnv(true);
+    mockFetch.mockImplementation(async () => new Response("{}"));
+  });
+
+  it("resolves the cookie store per request", async () => {
+    const { next, loadNext } = createNext();
+    const api = createFetchClient({
+      baseUrl: "https://example.com",
+      loadNext,
+      auth: {
+        server: {
+          enabled: true,
+          cookies: ({ cookieStore }) => ({
+            session: cookieStore.get("session")?.value ?? "",
+          }),
+        },
+      },
+    });
+
+    await api.get("/me");
+    await api.get("/me");
+
+    expect(lastRequest().headers.get("cookie")).toBe("session=abc");
+    expect(next.cookies).toHaveBeenCalledTimes(2);
+  });
+
+  it("calls redirect() for server redirects", async () => {
+    mockFetch.mockImplementation(
+      async () =>
+        new Response(null, { status: 302, headers: { location: "/login" } })
+    );
+    const { next, loadNext } = createNext();
+    const api = createFetchClient({ baseUrl: "https://example.com", loadNext });
+
+    await expect(api.safeGet("/me")).rejects.toThrow("NEXT_REDIRECT /login");
+    expect(next.redirect).toHaveBeenCalledWith("/login");
+  });
+
+  it("keeps a custom onServerRedirect", async () => {
+    mockFetch.mockImplementation(
+      async () =>
+        new Response(null, { status: 302, headers: { location: "/login" } })
+    );
+    const { next, loadNext } = createNext();
+    const onServerRedirect = vi.fn(() => {
+      throw new Error("custom");
+    });
+    const api = createFetchClient({
+      baseUrl: "https://example.com",
+      loadNext,
+      redirects: { onServerRedirect },
+    });
+
+    await expect(api.get("/me")).rejects.toThrow("custom");
+    expect(next.redirect).not.toHaveBeenCalled();
+  });
+
+  it("forwards Set-Cookie headers to Next's cookie store", async () => {
+    const headers = new Headers();
+    headers.append(
+      "set-cookie",
+      "session=new%20value; Path=/; Max-Age=3600; HttpOnly; Secure; SameSite=Lax"
+    );
+    headers.append("set-cookie", "theme=dark");
+    mockFetch.mockImplementation(async () => new Response("{}", { headers }));
+    const { store, loadNext } = createNext();
+    const api = createFetchClient({ baseUrl: "https://example.com", loadNext });
+
+    await api.post("/login");
+
+    expect(store.set).toHaveBeenCalledWith({
+      name: "session",
+      value: "new value",
+      path: "/",
+      maxAge: 3600,
+      httpOnly: true,
+      secure: true,
+      sameSite: "lax",
+    });
+    expect(store.set).toHaveBeenCalledWith({ name: "theme", value: "dark" });
+  });
+
+  it("ignores cookie writes outside Route Handlers and Server Actions", async () => {
+    mockFetch.mockImplementation(
+      async () =>
+        new Response("{}", {
+          headers: { "content-type": "application/json", "set-cookie": "a=1" },
+        })
+    );
+    const { store, loadNext } = createNext();
+    store.set.mockImplementation(() => {
+      throw new Error("Cookies can only be modified in a Server Action");
+    });
+    const api = createFetchClient({ baseUrl: "https://example.com", loadNext });
+
+    expect(await api.get("/me")).toEqual({});
+  });
+
+  it("skips cookie forwarding outside a request scope", async () => {
+    mockFetch.mockImplementation(
+      async () => new Response("{}", { headers: { "set-cookie": "a=1" } })
+    );
+    const { next, loadNext } = createNext();
+    next.cookies.mockRejectedValue(
+      new Error("`cookies` was called outside a request scope")
+    );
+    const api = createFetchClient({ baseUrl: "https://example.com", loadNext });
+
+    expect(await api.safeGet("/me")).toMatchObject({ ok: true });
+  });
+
+  it("can disable cookie forwarding", async () => {
+    mockFetch.mockImplementation(
+      async () => new Response("{}", { headers: { "set-cookie": "a=1" } })
+    );
+    const { store, loadNext } = createNext();
+    const api = createFetchClient({
+      baseUrl: "https://example.com",
+      loadNext,
+      forwardCookies: false,
+    });
+
+    await api.get("/me");
+
+    expect(store.set).not.toHaveBeenCalled();
+  });
+
+  it("passes revalidate and tags to Next's fetch", async () => {
+    const { loadNext } = createNext();
+    const api = createFetchClient({ baseUrl: "https://example.com", loadNext });
+
+    await api.get("/posts", { next: { revalidate: 60, tags: ["posts"] } });
+
+    expect((lastRequest() as any).next).toEqual({
+      revalidate: 60,
+      tags: ["posts"],
+    });
+  });
+
+  it("never loads Next in the browser", async () => {
+    setServerEnv(false);
+    mockFetch.mockImplementation(
+      async () => new Response("{}", { headers: { "set-cookie": "a=1" } })
+    );
+    const loadNext = vi.fn();
+    const api = createFetchClient({ baseUrl: "https://example.com", loadNext });
+
+    await api.get("/me");
+
+    expect(loadNext).not.toHaveBeenCalled();
+  });
+
+  it("lets the browser follow redirects", async () => {
+    setServerEnv(false);
+    const api = createFetchClient({
+      baseUrl: "https://example.com",
+      loadNext: vi.fn(),
+    });
+
+    await api.get("/me");
+
+    expect(lastRequest().redirect).toBe("follow");
+  });
+});
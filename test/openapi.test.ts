@@ -0,0 +1,240 @@
+import { describe, it, expect } from "vitest";
+import { fileURLToPath } from "node:url";
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  generateRoutes,
+  loadDocument,
+  type OpenApiDocument,
+} from "../src/openapi";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const petstore = fileURLToPath(
+  new URL("./fixtures/petstore.yaml", import.meta.url)
+);
+
+function doc(paths: OpenApiDocument["paths"], schemas = {}): OpenApiDocument {
+  return { openapi: "3.1.0", paths, components: { schemas } };
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("OpenAPI route generation", () => {
+  it("generates schemas and routes from a YAML document", async () => {
+    const output = generateRoutes(await loadDocument(petstore), {
+      source: "petstore.yaml",
+    });
+
+    expect(output)
+      .toBe(`// Generated from petstore.yaml by unified-auth-fetch-openapi, do not edit.
+
+export type NewPet = {
+  name: string;
+  kind?: "cat" | "dog";
+};
+
+export type Pet = NewPet & {
+  id: number;
+  owner?: string | null;
+};
+
+export type Error_ = {
+  message?: string;
+  [key: string]: unknown;
+};
+
+export type ApiRoutes = {
+  "/pets": {
+    /** List pets */
+    GET: {
+      query: {
+        limit?: number;
+        tag: string;
+      };
+      response: Pet[];
+      error: Error_;
+    };
+    POST: {
+      body: NewPet;
+      response: Pet;
+      error: Error_;
+    };
+  };
+  "/pets/:petId": {
+    GET: {
+      params: {
+        petId: number;
+      };
+      response: Pet;
+      error: Error_;
+    };
+    DELETE: {
+      params: {
+        petId: number;
+      };
+      response: undefined;
+    };
+  };
+};
+`);
+  });
+
+  it("reads JSON documents", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "openapi-"));
+    const file = join(dir, "spec.json");
+    await writeFile(file, JSON.stringify(doc({ "/health": { get: {} } })));
+
+    expect(generateRoutes(await loadDocument(file))).toContain(
+      '"/health": {\n    GET: {};'
+    );
+  });
+
+  it("rejects documents that are not OpenAPI 3", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "openapi-"));
+    const file = join(dir, "swagger.json");
+    await writeFile(file, '{"swagger":"2.0"}');
+
+    await expect(loadDocument(file)).rejects.toThrow(
+      "is not an OpenAPI 3 document"
+    );
+  });
+
+  it("writes path params the client can fill", () => {
+    const output = generateRoutes(
+      doc({
+        "/pets/{pet-id}": { get: {} },
+        "/files/{name}.{ext}": { get: {} },
+      })
+    );
+
+    expect(output).toContain('"/pets/:pet-id": {');
+    expect(output).toContain('"/files/{name}.{ext}": {');
+  });
+
+  it("renames components that would shadow globals", () => {
+    const output = generateRoutes(
+      doc(
+        {
+          "/files": {
+            get: {
+              responses: {
+                "200": {
+                  content: {
+                    "application/json": {
+                      schema: { $ref: "#/components/schemas/Response" },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        {
+          Blob: { type: "string" },
+          Response: {
+            type: "object",
+            properties: { file: { type: "string", format: "binary" } },
+          },
+          ApiRoutes: { type: "object" },
+        }
+      )
+    );
+
+    expect(output).toContain("export type Blob_ = string;");
+    expect(output).toContain("export type Response_ = {\n  file?: Blob;");
+    expect(output).toContain("export type ApiRoutes_ = ");
+    expect(output).toContain("response: Response_;");
+  });
+
+  it("maps multiple response codes and body media types", () => {
+    const output = generateRoutes(
+      doc({
+        "/files": {
+          post: {
+            requestBody: {
+              content: { "multipart/form-data": { schema: {} } },
+            },
+            responses: {
+              "200": {
+                content: { "application/json": { schema: { type: "string" } } },
+              },
+              "202": { content: { "text/plain": {} } },
+              "400": {
+                content: {
+                  "application/json": { schema: { type: "integer" } },
+                },
+              },
+              "500": {},
+            },
+          },
+        },
+      })
+    );
+
+    expect(output).toContain("body?: FormData;");
+    expect(output).toContain("response: string;");
+    expect(output).toContain("error: number | undefined;");
+  });
+
+  it("inlines schemas and breaks cycles when schemas are disabled", () => {
+    const output = generateRoutes(
+      doc(
+        {
+          "/nodes/{id}": {
+            get: {
+              parameters: [
+                { name: "id", in: "path", schema: { type: "string" } },
+              ],
+              responses: {
+                "200": {
+                  content: {
+                    "application/json": {
+                      schema: { $ref: "#/components/schemas/Node" },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        {
+          Node: {
+            type: "object",
+            properties: {
+              "child-node": { $ref: "#/components/schemas/Node" },
+              tags: { type: ["string", "null"] },
+            },
+          },
+        }
+      ),
+      { schemas: false, typeName: "Routes" }
+    );
+
+    expect(output).not.toContain("export type Node");
+    expect(output).toContain("export type Routes = {");
+    expect(output).toContain('"child-node"?: unknown;');
+    expect(output).toContain("tags?: string | null;");
+  });
+
+  it("fails on unresolved and external references", () => {
+    const ref = (to: string) =>
+      doc({
+        "/x": {
+          get: { responses: { "200": { $ref: to } } },
+        },
+      });
+
+    expect(() => generateRoutes(ref("#/components/responses/Nope"))).toThrow(
+      'Unresolved reference "#/components/responses/Nope"'
+    );
+    expect(() => generateRoutes(ref("other.yaml#/Thing"))).toThrow(
+      "Only local references are supported"
+    );
+  });
+});
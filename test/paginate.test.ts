@@ -0,0 +1,262 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createFetchClient } from "../src/createClient";
+import { createFetchClient as createLazyClient } from "../src/createApiSingleton";
+import { FetchError, TimeoutError } from "../src/types";
+import { parseNextLink } from "../src/paginate";
+
+// ============================================================================
+// Mocks & Helpers
+// ============================================================================
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function jsonResponse(body: unknown, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    headers: { "content-type": "application/json", ...headers },
+  });
+}
+
+// Serves pages by the request URL
+function servePages(pages: Record<string, () => Response>) {
+  mockFetch.mockImplementation(async (req: Request) => {
+    const page = pages[req.url];
+    if (!page) throw new Error(`Unexpected request to ${req.url}`);
+    return page();
+  });
+}
+
+function requestedUrls(): string[] {
+  return mockFetch.mock.calls.map(([req]) => (req as Request).url);
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("client.paginate", () => {
+  const client = createFetchClient({
+    baseUrl: "https://example.com",
+    headers: { authorization: "Bearer token" },
+  });
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("follows cursors from the response body", async () => {
+    servePages({
+      "https://example.com/users?q=a": () =>
+        jsonResponse({ data: [1, 2], meta: { next: "c2" } }),
+      "https://example.com/users?q=a&cursor=c2": () =>
+        jsonResponse({ data: [3], meta: { next: null } }),
+    });
+
+    const users = await client
+      .paginate<number>("/users", {
+        params: { q: "a" },
+        items: "data",
+        strategy: { type: "cursor", cursor: "meta.next" },
+      })
+      .collect();
+
+    expect(users).toEqual([1, 2, 3]);
+    const [, second] = mockFetch.mock.calls.map(([req]) => req as Request);
+    expect(second.headers.get("authorization")).toBe("Bearer token");
+  });
+
+  it("pages with offset and limit params", async () => {
+    servePages({
+      "https://example.com/items?offset=0&limit=2": () => jsonResponse([1, 2]),
+      "https://example.com/items?offset=2&limit=2": () => jsonResponse([3, 4]),
+      "https://example.com/items?offset=4&limit=2": () => jsonResponse([5]),
+    });
+
+    const items: unknown[] = [];
+    for await (const item of client.paginate("/items", {
+      strategy: { type: "offset", limit: 2 },
+    })) {
+      items.push(item);
+    }
+
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("follows Link headers", async () => {
+    servePages({
+      "https://example.com/repos": () =>
+        jsonResponse(["a"], {
+          link: '</repos?page=2>; rel="next", </repos?page=9>; rel="last"',
+        }),
+      "https://example.com/repos?page=2": () =>
+        jsonResponse(["b"], {
+          link: '<https://example.com/repos?page=1>; rel="prev first"',
+        }),
+    });
+
+    const pages = [];
+    for await (const page of client
+      .paginate("/repos", { strategy: { type: "link" } })
+      .pages()) {
+      pages.push({ index: page.index, items: page.items });
+    }
+
+    expect(pages).toEqual([
+      { index: 0, items: ["a"] },
+      { index: 1, items: ["b"] },
+    ]);
+  });
+
+  it("uses a custom getNextRequest", async () => {
+    servePages({
+      "https://example.com/events": () =>
+        jsonResponse({ events: [1], nextPage: 2 }),
+      "https://example.com/events?page=2": () =>
+        jsonResponse({ events: [2], nextPage: null }),
+    });
+
+    const events = await client
+      .paginate("/events", {
+        items: (data: any) => data.events,
+        strategy: {
+          getNextRequest: ({ data, request }: any) =>
+            data.nextPage && {
+              path: request.path,
+              params: { page: data.nextPage },
+            },
+        },
+      })
+      .collect();
+
+    expect(events).toEqual([1, 2]);
+  });
+
+  it("stops fetching once collect() has enough items", async () => {
+    servePages({
+      "https://example.com/items?offset=0&limit=2": () => jsonResponse([1, 2]),
+      "https://example.com/items?offset=2&limit=2": () => jsonResponse([3, 4]),
+    });
+
+    const items = await client
+      .paginate("/items", { strategy: { type: "offset", limit: 2 } })
+      .collect({ max: 2 });
+
+    expect(items).toEqual([1, 2]);
+    expect(mockFetch).toHaveBeenCalledOnce();
+  });
+
+  it("stops when a cursor repeats", async () => {
+    servePages({
+      "https://example.com/feed": () =>
+        jsonResponse({ items: [1], next: "same" }),
+      "https://example.com/feed?cursor=same": () =>
+        jsonResponse({ items: [2], next: "same" }),
+    });
+
+    const items = await client
+      .paginate("/feed", {
+        items: "items",
+        strategy: { type: "cursor", cursor: "next" },
+      })
+      .collect();
+
+    expect(items).toEqual([1, 2]);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("throws failed pages through the error pipeline", async () => {
+    const handleServerError = vi.fn();
+    const handled = createFetchClient({
+      baseUrl: "https://example.com",
+      errors: { handleServerError },
+    });
+    servePages({
+      "https://example.com/items?offset=0&limit=1": () => jsonResponse([1]),
+      "https://example.com/items?offset=1&limit=1": () =>
+        new Response(null, { status: 500 }),
+    });
+
+    const paginator = handled.paginate("/items", {
+      strategy: { type: "offset", limit: 1 },
+    });
+
+    await expect(paginator.collect()).rejects.toBeInstanceOf(FetchError);
+    expect(handleServerError).toHaveBeenCalledOnce();
+  });
+
+  it("ignores onError overrides, pages must be responses", async () => {
+    servePages({
+      "https://example.com/items?offset=0&limit=1": () =>
+        new Response(null, { status: 500 }),
+    });
+
+    const paginator = client.paginate("/items", {
+      strategy: { type: "offset", limit: 1 },
+      // @ts-expect-error not supported by paginate()
+      onError: () => [],
+    });
+
+    await expect(paginator.collect()).rejects.toBeInstanceOf(FetchError);
+  });
+
+  it("times out while reading a page body", async () => {
+    // The body errors once the request is aborted, like fetch's own bodies
+    mockFetch.mockImplementation(
+      async (req: Request) =>
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              req.signal.addEventListener("abort", () =>
+                controller.error(req.signal.reason)
+              );
+            },
+          }),
+          { headers: { "content-type": "application/json" } }
+        )
+    );
+
+    const paginator = client.paginate("/items", {
+      strategy: { type: "offset", limit: 1 },
+      timeout: 20,
+      // Shared requests outlive their callers
+      dedupe: false,
+    });
+
+    await expect(paginator.collect()).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it("requires items for non-array bodies", async () => {
+    servePages({
+      "https://example.com/users": () => jsonResponse({ data: [] }),
+    });
+
+    await expect(
+      client.paginate("/users", { strategy: { type: "link" } }).collect()
+    ).rejects.toThrow(TypeError);
+  });
+
+  it("works on lazily created clients", async () => {
+    servePages({
+      "https://example.com/items?offset=0&limit=5": () => jsonResponse([1, 2]),
+    });
+    const lazy = createLazyClient({ baseUrl: "https://example.com" });
+
+    const items = await lazy
+      .paginate("/items", { strategy: { type: "offset", limit: 5 } })
+      .collect();
+
+    expect(items).toEqual([1, 2]);
+    expect(requestedUrls()).toHaveLength(1);
+  });
+
+  it("parses Link headers", () => {
+    expect(
+      parseNextLink(
+        '<https://a.com/?page=2&x=1,2>; rel="next", <https://a.com/?page=5>; rel=last'
+      )
+    ).toBe("https://a.com/?page=2&x=1,2");
+    expect(parseNextLink("<https://a.com/>; rel=NEXT")).toBe("https://a.com/");
+    expect(parseNextLink('<https://a.com/>; rel="prev"')).toBeUndefined();
+    expect(parseNextLink(null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createFetchClient } from "../src/createClient";
+
+// ============================================================================
+// Mocks & Helpers
+// ============================================================================
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function respondWith(body: BodyInit | null, init: ResponseInit = {}) {
+  mockFetch.mockImplementation(async () => new Response(body, init));
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("Response parsing", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const client = createFetchClient({ baseUrl: "https://example.com" });
+
+  describe("by content-type", () => {
+    it("parses problem+json as JSON", async () => {
+      respondWith('{"title":"Bad"}', {
+        status: 400,
+        headers: { "content-type": "application/problem+json" },
+      });
+
+      const res = await client.safeGet("/problem");
+
+      expect(res).toMatchObject({ ok: false, data: { title: "Bad" } });
+    });
+
+    it("parses NDJSON into an array", async () => {
+      respondWith('{"a":1}\n{"a":2}\n', {
+        headers: { "content-type": "application/x-ndjson" },
+      });
+
+      expect(await client.get("/events")).toEqual([{ a: 1 }, { a: 2 }]);
+    });
+
+    it("returns XML as text and binary content as a Blob", async () => {
+      respondWith("<a/>", { headers: { "content-type": "application/xml" } });
+      expect(await client.get("/xml")).toBe("<a/>");
+
+      respondWith(new Uint8Array([1, 2]), {
+        headers: { "content-type": "application/octet-stream" },
+      });
+      const blob = await client.get("/file");
+      expect(blob).toBeInstanceOf(Blob);
+      expect((blob as Blob).size).toBe(2);
+    });
+
+    it("uses registered parsers by media type and wildcard", async () => {
+      const xml = vi.fn(async (res: Response) => ({ xml: await res.text() }));
+      const image = vi.fn(async () => "image");
+      const custom = createFetchClient({
+        baseUrl: "https://example.com",
+        parsers: { "application/xml": xml, "image/*": image },
+      });
+
+      respondWith("<a/>", {
+        headers: { "content-type": "application/xml; charset=utf-8" },
+      });
+      expect(await custom.get("/xml")).toEqual({ xml: "<a/>" });
+
+      respondWith("png", { headers: { "content-type": "image/png" } });
+      expect(await custom.get("/img")).toBe("image");
+    });
+  });
+
+  describe("empty bodies", () => {
+    it.each([204, 205])("returns undefined for %i", async (status) => {
+      respondWith(null, {
+        status,
+        headers: { "content-type": "application/json" },
+      });
+
+      expect(await client.delete("/item")).toBeUndefined();
+    });
+
+    it("returns undefined for HEAD requests", async () => {
+      respondWith(null, { headers: { "content-type": "application/json" } });
+
+      expect(await client.request("/item", { method: "HEAD" })).toBeUndefined();
+    });
+  });
+
+  describe("responseType", () => {
+    beforeEach(() => {
+      respondWith('{"a":1}', {
+        headers: { "content-type": "application/json" },
+      });
+    });
+
+    it("reads the body as the requested type", async () => {
+      expect(await client.get("/x", { responseType: "text" })).toBe('{"a":1}');
+      expect(await client.get("/x", { responseType: "blob" })).toBeInstanceOf(
+        Blob
+      );
+      expect(
+        await client.get("/x", { responseType: "arrayBuffer" })
+      ).toBeInstanceOf(ArrayBuffer);
+      expect(await client.get("/x", { responseType: "none" })).toBeUndefined();
+    });
+
+    it("returns the raw stream", async () => {
+      const stream = await client.get("/x", { responseType: "stream" });
+
+      expect(stream).toBeInstanceOf(ReadableStream);
+      expect(await new Response(stream).text()).toBe('{"a":1}');
+    });
+
+    it("parses error bodies by content-type regardless", async () => {
+      respondWith('{"error":"nope"}', {
+        status: 500,
+        headers: { "content-type": "application/json" },
+      });
+
+      const res = await client.safeGet("/x", { responseType: "blob" });
+
+      expect(res).toMatchObject({ ok: false, data: { error: "nope" } });
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createFetchClient } from "../src/createClient";
+import type { TransferProgress } from "../src/types";
+
+// ============================================================================
+// Mocks & Helpers
+// ============================================================================
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+// Reads the request body like a server would, which drives upload progress
+function receiveBodies() {
+  const bodies: string[] = [];
+  mockFetch.mockImplementation(async (req: Request) => {
+    bodies.push(await req.text());
+    return new Response("{}", {
+      headers: { "content-type": "application/json" },
+    });
+  });
+  return bodies;
+}
+
+function chunkedResponse(chunks: string[], headers: HeadersInit = {}) {
+  const encoder = new TextEncoder();
+  return new Response(
+    new ReadableStream({
+      pull(controller) {
+        const chunk = chunks.shift();
+        if (chunk === undefined) controller.close();
+        else controller.enqueue(encoder.encode(chunk));
+      },
+    }),
+    { headers }
+  );
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("Transfer progress", () => {
+  const client = createFetchClient({ baseUrl: "https://example.com" });
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("onUploadProgress", () => {
+    it("reports bytes sent with the total", async () => {
+      const bodies = receiveBodies();
+      const events: TransferProgress[] = [];
+
+      await client.post("/upload", {
+        body: new Blob(["x".repeat(1000)]),
+        onUploadProgress: (e) => events.push(e),
+      });
+
+      expect(bodies[0]).toHaveLength(1000);
+      const req = mockFetch.mock.calls[0][0] as Request;
+      expect(req.headers.get("content-length")).toBe("1000");
+      expect(events.length).toBeGreaterThan(0);
+      expect(events.at(-1)).toEqual({ loaded: 1000, total: 1000, progress: 1 });
+    });
+
+    it("keeps the content-type of the original body", async () => {
+      const bodies = receiveBodies();
+      const form = new FormData();
+      form.append("name", "Ada");
+
+      await client.post("/form", { body: form, onUploadProgress: () => {} });
+      const multipart = mockFetch.mock.calls[0][0] as Request;
+      const [type, boundary] = multipart.headers
+        .get("content-type")!
+        .split(/;\s*boundary=/);
+      expect(type).toBe("multipart/form-data");
+      expect(bodies[0]).toContain(`--${boundary}`);
+
+      await client.post("/json", {
+        body: { a: 1 },
+        onUploadProgress: () => {},
+      });
+      const json = mockFetch.mock.calls[1][0] as Request;
+      expect(json.headers.get("content-type")).toBe("application/json");
+    });
+
+    it("sends a fresh body on every retry", async () => {
+      const bodies = receiveBodies();
+      mockFetch.mockImplementationOnce(async (req: Request) => {
+        bodies.push(await req.text());
+        return new Response(null, { status: 503 });
+      });
+      const retrying = createFetchClient({
+        baseUrl: "https://example.com",
+        retry: { attempts: 2, delay: 0, methods: ["POST"] },
+      });
+      const loaded: number[] = [];
+
+      await retrying.post("/upload", {
+        body: "hello",
+        onUploadProgress: (e) => loaded.push(e.loaded),
+      });
+
+      expect(bodies).toEqual(["hello", "hello"]);
+      expect(loaded).toEqual([5, 5]);
+    });
+
+    it("sends Blobs untouched and reports once in browsers", async () => {
+      // @ts-ignore
+      global.window = {};
+      const onUploadProgress = vi.fn();
+      let reportedWhileSending = false;
+      mockFetch.mockImplementation(async (req: Request) => {
+        await req.text();
+        reportedWhileSending = onUploadProgress.mock.calls.length > 0;
+        return new Response(null, { status: 204 });
+      });
+
+      try {
+        await client.post("/upload", {
+          body: new Blob(["hello"]),
+          onUploadProgress,
+        });
+      } finally {
+        // @ts-ignore
+        delete global.window;
+      }
+
+      const req = mockFetch.mock.calls[0][0] as Request;
+      expect(req.headers.has("content-length")).toBe(false);
+      expect(reportedWhileSending).toBe(false);
+      expect(onUploadProgress).toHaveBeenCalledOnce();
+      expect(onUploadProgress).toHaveBeenCalledWith({
+        loaded: 5,
+        total: 5,
+        progress: 1,
+      });
+    });
+
+    it("reports once when request streams aren't supported", async () => {
+      const NativeRequest = Request;
+      vi.stubGlobal(
+        "Request",
+        class extends NativeRequest {
+          constructor(input: RequestInfo | URL, init?: RequestInit) {
+            if (init?.body instanceof ReadableStream) {
+              throw new TypeError("unsupported BodyInit type");
+            }
+            super(input, init);
+          }
+        }
+      );
+      vi.resetModules();
+      const fresh = await import("../src/createClient");
+      const bodies = receiveBodies();
+      const onUploadProgress = vi.fn();
+
+      await fresh
+        .createFetchClient({ baseUrl: "https://example.com" })
+        .post("/upload", { body: "hello", onUploadProgress });
+
+      expect(bodies).toEqual(["hello"]);
+      expect(onUploadProgress).toHaveBeenCalledOnce();
+      expect(onUploadProgress).toHaveBeenCalledWith({
+        loaded: 5,
+        total: 5,
+        progress: 1,
+      });
+    });
+  });
+
+  describe("onDownloadProgress", () => {
+    it("reports bytes read with the Content-Length total", async () => {
+      mockFetch.mockResolvedValue(
+        chunkedResponse(['{"a":', "1}"], {
+          "content-type": "application/json",
+          "content-length": "7",
+        })
+      );
+      const events: TransferProgress[] = [];
+
+      const data = await client.get("/file", {
+        onDownloadProgress: (e) => events.push(e),
+      });
+
+      expect(data).toEqual({ a: 1 });
+      expect(events).toEqual([
+        { loaded: 5, total: 7, progress: 5 / 7 },
+        { loaded: 7, total: 7, progress: 1 },
+      ]);
+    });
+
+    it("leaves the total out for encoded bodies", async () => {
+      mockFetch.mockResolvedValue(
+        chunkedResponse(["abc"], {
+          "content-encoding": "gzip",
+          "content-length": "2",
+        })
+      );
+      const events: TransferProgress[] = [];
+
+      await client.get("/file", {
+        responseType: "text",
+        onDownloadProgress: (e) => events.push(e),
+      });
+
+      expect(events).toEqual([
+        { loaded: 3, total: undefined, progress: undefined },
+      ]);
+    });
+
+    it("works with safe methods and streams", async () => {
+      mockFetch.mockResolvedValue(
+        chunkedResponse(["data: a\n\n"], {
+          "content-type": "text/event-stream",
+        })
+      );
+      const onDownloadProgress = vi.fn();
+
+      for await (const _ of client.stream("/events", { onDownloadProgress })) {
+      }
+      expect(onDownloadProgress).toHaveBeenCalledWith(
+        expect.objectContaining({ loaded: 9 })
+      );
+
+      mockFetch.mockResolvedValue(chunkedResponse(["ok"]));
+      const res = await client.safeGet("/file", { onDownloadProgress });
+      expect(res).toMatchObject({ ok: true, data: "ok" });
+      expect(onDownloadProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({ loaded: 2 })
+      );
+    });
+
+    it("skips error responses", async () => {
+      mockFetch.mockResolvedValue(new Response("nope", { status: 500 }));
+      const onDownloadProgress = vi.fn();
+
+      await client.safeGet("/file", { onDownloadProgress });
+
+      expect(onDownloadProgress).not.toHaveBeenCalled();
+    });
+  });
+});
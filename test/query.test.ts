@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createFetchClient } from "../src/createClient";
+
+// ============================================================================
+// Mocks & Helpers
+// ============================================================================
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function lastQuery(): string {
+  const req = mockFetch.mock.calls.at(-1)![0] as Request;
+  return decodeURIComponent(new URL(req.url).search);
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("Query params", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockFetch.mockImplementation(async () => new Response("{}"));
+  });
+
+  const client = createFetchClient({ baseUrl: "https://example.com" });
+
+  it("repeats array values by default", async () => {
+    await client.get("/items", { params: { id: [1, 2], skip: null } });
+
+    expect(lastQuery()).toBe("?id=1&id=2");
+  });
+
+  it.each([
+    ["brackets", "?tag[]=a&tag[]=b"],
+    ["comma", "?tag=a,b"],
+    ["index", "?tag[0]=a&tag[1]=b"],
+  ] as const)("supports the %s array format", async (arrayFormat, query) => {
+    const custom = createFetchClient({
+      baseUrl: "https://example.com",
+      paramsSerializer: { arrayFormat },
+    });
+
+    await custom.get("/items", { params: { tag: ["a", "b"] } });
+
+    expect(lastQuery()).toBe(query);
+  });
+
+  it("encodes nested objects with brackets", async () => {
+    await client.get("/search", {
+      params: {
+        filter: { status: "open", owner: { id: 7 }, labels: ["bug"] },
+        sort: [{ field: "date" }],
+      },
+    });
+
+    expect(lastQuery()).toBe(
+      "?filter[status]=open&filter[owner][id]=7&filter[labels]=bug&sort[0][field]=date"
+    );
+  });
+
+  it("serializes Dates as ISO strings or with serializeDate", async () => {
+    const since = new Date("2024-01-02T03:04:05.000Z");
+
+    await client.get("/events", { params: { since } });
+    expect(lastQuery()).toBe("?since=2024-01-02T03:04:05.000Z");
+
+    const custom = createFetchClient({
+      baseUrl: "https://example.com",
+      paramsSerializer: { serializeDate: (d) => String(d.getTime()) },
+    });
+    await custom.get("/events", { params: { since } });
+    expect(lastQuery()).toBe(`?since=${since.getTime()}`);
+  });
+
+  it("merges params with the query string in the path, replacing same names", async () => {
+    await client.get("/items?sort=asc&page=1", {
+      params: { page: 2, q: "a b" },
+    });
+
+    const req = mockFetch.mock.calls[0][0] as Request;
+    expect(new URL(req.url).searchParams.getAll("page")).toEqual(["2"]);
+    expect(new URL(req.url).searchParams.get("sort")).toBe("asc");
+    expect(new URL(req.url).searchParams.get("q")).toBe("a b");
+  });
+
+  it("uses a custom paramsSerializer", async () => {
+    const paramsSerializer = vi.fn(() => "?custom=1");
+    const custom = createFetchClient({
+      baseUrl: "https://example.com",
+      paramsSerializer,
+    });
+
+    await custom.get("/items?a=1&custom=0", { params: { b: 2 } });
+
+    expect(paramsSerializer).toHaveBeenCalledWith({ b: 2 });
+    expect(lastQuery()).toBe("?a=1&custom=1");
+  });
+});
@@ -0,0 +1,323 @@
+// @vitest-environment jsdom
+import {
+  describe,
+  it,
+  expect,
+  expectTypeOf,
+  beforeEach,
+  afterEach,
+  vi,
+} from "vitest";
+import { act, createElement } from "react";
+import { createRoot, type Root } from "react-dom/client";
+import { createFetchClient } from "../src/createClient";
+import {
+  FetchClientProvider,
+  useFetch,
+  useMutation,
+  type HooksClient,
+} from "../src/react";
+
+// ============================================================================
+// Mocks & Helpers
+// ============================================================================
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+function lastRequest(): Request {
+  return mockFetch.mock.calls.at(-1)![0] as Request;
+}
+
+// Lets pending requests resolve and React apply their updates
+async function flush() {
+  await act(async () => {
+    for (let i = 0; i < 5; i++) await new Promise((r) => setTimeout(r, 0));
+  });
+}
+
+let root: Root | null = null;
+
+function renderHook<P, R>(
+  hook: (props: P) => R,
+  initialProps: P,
+  client: HooksClient
+) {
+  const result = { current: undefined as R };
+  function Probe(props: { hookProps: P }) {
+    result.current = hook(props.hookProps);
+    return null;
+  }
+
+  const render = (props: P) =>
+    act(() =>
+      root!.render(
+        createElement(
+          FetchClientProvider,
+          { client },
+          createElement(Probe, { hookProps: props })
+        )
+      )
+    );
+
+  root = createRoot(document.createElement("div"));
+  render(initialProps);
+
+  return {
+    result,
+    rerender: render,
+    unmount: () => act(() => root!.unmount()),
+  };
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("React hooks", () => {
+  const client = createFetchClient({ baseUrl: "https://example.com" });
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockFetch.mockImplementation(async () => jsonResponse({ id: 1 }));
+  });
+
+  afterEach(() => {
+    root = null;
+  });
+
+  describe("useFetch", () => {
+    it("loads data from the provider's client", async () => {
+      const { result } = renderHook(() => useFetch("/user"), {}, client);
+
+      expect(result.current.isLoading).toBe(true);
+      await flush();
+
+      expect(result.current).toMatchObject({
+        data: { id: 1 },
+        error: undefined,
+        isLoading: false,
+        isFetching: false,
+      });
+      expect(result.current.response?.ok).toBe(true);
+    });
+
+    it("exposes failed responses as error", async () => {
+      mockFetch.mockImplementation(async () =>
+        jsonResponse({ message: "nope" }, 404)
+      );
+      const { result } = renderHook(() => useFetch("/user"), {}, client);
+      await flush();
+
+      expect(result.current.data).toBeUndefined();
+      expect(result.current.error).toMatchObject({ ok: false, status: 404 });
+    });
+
+    it("refetches when the path or params change", async () => {
+      const { rerender } = renderHook(
+        ({ page }: { page: number }) =>
+          useFetch("/users", { params: { page } }),
+        { page: 1 },
+        client
+      );
+      await flush();
+      rerender({ page: 1 });
+      await flush();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      rerender({ page: 2 });
+      await flush();
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(lastRequest().url).toBe("https://example.com/users?page=2");
+    });
+
+    it("waits while disabled or without a path", async () => {
+      const { result, rerender } = renderHook(
+        ({ id }: { id: number | null }) =>
+          useFetch(id === null ? null : `/users/${id}`),
+        { id: null as number | null },
+        client
+      );
+      await flush();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(result.current.isLoading).toBe(false);
+
+      rerender({ id: 1 });
+      await flush();
+
+      expect(lastRequest().url).toBe("https://example.com/users/1");
+    });
+
+    it("refetches on demand", async () => {
+      const { result } = renderHook(() => useFetch("/user"), {}, client);
+      await flush();
+
+      mockFetch.mockImplementation(async () => jsonResponse({ id: 2 }));
+      await act(() => result.current.refetch());
+
+      expect(result.current.data).toEqual({ id: 2 });
+    });
+
+    it("aborts the request on unmount", async () => {
+      mockFetch.mockImplementation(
+        (req: Request) =>
+          new Promise((_, reject) =>
+            req.signal.addEventListener("abort", () =>
+              reject(req.signal.reason)
+            )
+          )
+      );
+      const { unmount } = renderHook(() => useFetch("/slow"), {}, client);
+      await flush();
+
+      unmount();
+
+      expect(lastRequest().signal.aborted).toBe(true);
+    });
+  });
+
+  describe("useMutation", () => {
+    it("sends the body and exposes the result", async () => {
+      const onSuccess = vi.fn();
+      const { result } = renderHook(
+        () => useMutation("post", "/users", { onSuccess }),
+        {},
+        client
+      );
+
+      await act(() => result.current.mutate({ name: "Ada" }));
+
+      expect(lastRequest().method).toBe("POST");
+      expect(await lastRequest().json()).toEqual({ name: "Ada" });
+      expect(result.current.data).toEqual({ id: 1 });
+      expect(onSuccess).toHaveBeenCalledWith(
+        { id: 1 },
+        { name: "Ada" },
+        undefined
+      );
+    });
+
+    it("rolls back optimistic updates on error", async () => {
+      const { result } = renderHook(
+        () => {
+          const todos = useFetch<string[]>("/todos");
+          const add = useMutation<
+            unknown,
+            string,
+            unknown,
+            string[] | undefined
+          >("post", "/todos", {
+            onMutate(todo) {
+              const previous = todos.data;
+              todos.setData((data) => [...(data ?? []), todo]);
+              return previous;
+            },
+            onError: (_error, _todo, previous) => todos.setData(previous),
+          });
+          return { todos, add };
+        },
+        {},
+        client
+      );
+      mockFetch.mockImplementation(async () => jsonResponse(["a"]));
+      await flush();
+
+      let resolve!: (res: Response) => void;
+      mockFetch.mockImplementation(
+        () => new Promise<Response>((r) => (resolve = r))
+      );
+      let pending!: Promise<unknown>;
+      act(() => {
+        pending = result.current.add.mutate("b");
+      });
+      await flush();
+
+      expect(result.current.todos.data).toEqual(["a", "b"]);
+      expect(result.current.add.isLoading).toBe(true);
+
+      await act(async () => {
+        resolve(jsonResponse({ message: "full" }, 409));
+        await pending;
+      });
+
+      expect(result.current.todos.data).toEqual(["a"]);
+      expect(result.current.add.error).toMatchObject({ status: 409 });
+    });
+
+    it("skips onError and onSettled when the request is aborted", async () => {
+      const onError = vi.fn();
+      const onSettled = vi.fn();
+      mockFetch.mockImplementation(
+        (req: Request) =>
+          new Promise((_, reject) =>
+            req.signal.addEventListener("abort", () =>
+              reject(req.signal.reason)
+            )
+          )
+      );
+      const { result } = renderHook(
+        () => useMutation("post", "/users", { onError, onSettled }),
+        {},
+        client
+      );
+
+      let pending!: Promise<unknown>;
+      act(() => {
+        pending = result.current.mutate({ name: "Ada" });
+      });
+      await flush();
+      act(() => result.current.reset());
+
+      expect(await pending).toMatchObject({ ok: false, reason: "aborted" });
+      expect(onError).not.toHaveBeenCalled();
+      expect(onSettled).not.toHaveBeenCalled();
+    });
+
+    it("resets the result", async () => {
+      const { result } = renderHook(
+        () => useMutation("delete", "/users/:id", { pathParams: { id: 1 } }),
+        {},
+        client
+      );
+      await act(() => result.current.mutate());
+      expect(lastRequest().url).toBe("https://example.com/users/1");
+
+      act(() => result.current.reset());
+
+      expect(result.current.response).toBeUndefined();
+    });
+  });
+
+  it("accepts typed and safe-only clients", () => {
+    const typed = createFetchClient({
+      baseUrl: "https://example.com",
+      routes: {} as { "/users": { GET: { response: string[] } } },
+    });
+    const safeOnly = createFetchClient({
+      options: { disableUnsafeRequests: true },
+    });
+
+    expectTypeOf(typed).toExtend<HooksClient>();
+    expectTypeOf(safeOnly).toExtend<HooksClient>();
+    expectTypeOf({ safeGet: () => {} }).not.toExtend<HooksClient>();
+  });
+
+  it("uses a client passed to the hook over the provider's", async () => {
+    const other = createFetchClient({ baseUrl: "https://other.example.com" });
+    renderHook(() => useFetch("/user", { client: other }), {}, client);
+    await flush();
+
+    expect(lastRequest().url).toBe("https://other.example.com/user");
+  });
+});
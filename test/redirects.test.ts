@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createFetchClient } from "../src/createClient";
+import { RedirectError } from "../src/types";
+
+// ============================================================================
+// Mocks & Helpers
+// ============================================================================
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function setServerEnv(isServer: boolean) {
+  if (isServer) {
+    // @ts-ignore
+    delete global.window;
+  } else {
+    // @ts-ignore
+    global.window = {};
+  }
+}
+
+function redirectResponse(location: string, status = 302) {
+  return new Response(null, { status, headers: { location } });
+}
+
+// What browsers return for `redirect: "manual"`
+function opaqueRedirectResponse() {
+  const res = new Response(null);
+  Object.defineProperty(res, "type", { value: "opaqueredirect" });
+  Object.defineProperty(res, "status", { value: 0 });
+  return res;
+}
+
+function lastRequest(): Request {
+  return mockFetch.mock.calls.at(-1)![0] as Request;
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("Redirect results", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    setServerEnv(false);
+  });
+
+  it("returns a StandardRedirect from safe methods", async () => {
+    mockFetch.mockResolvedValue(redirectResponse("/login"));
+    const handleClientError = vi.fn();
+
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      redirects: { onClientRedirect: vi.fn() },
+      errors: { handleClientError },
+    });
+
+    const res = await client.safeGet("/me");
+
+    expect(res).toEqual({
+      ok: false,
+      redirected: true,
+      status: 302,
+      location: "/login",
+      opaque: false,
+    });
+    expect(handleClientError).not.toHaveBeenCalled();
+  });
+
+  it("uses a custom redirect shaper", async () => {
+    mockFetch.mockResolvedValue(redirectResponse("/login", 307));
+
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      redirects: { onClientRedirect: vi.fn() },
+      responseFormat: {
+        success: (ctx) => ctx.data,
+        error: (ctx) => ({ ok: false, status: ctx.status, message: "" }),
+        redirect: ({ location, status }) => ({
+          ok: false,
+          redirected: true,
+          status,
+          location: `https://example.com${location}`,
+        }),
+      },
+    });
+
+    expect(await client.safeGet("/me")).toMatchObject({
+      status: 307,
+      location: "https://example.com/login",
+    });
+  });
+
+  it("throws a RedirectError from unsafe methods", async () => {
+    mockFetch.mockResolvedValue(redirectResponse("/login", 303));
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      redirects: { onClientRedirect: vi.fn() },
+    });
+
+    const err = await client.post("/logout").then(
+      () => null,
+      (e) => e
+    );
+
+    expect(err).toBeInstanceOf(RedirectError);
+    expect(err).toMatchObject({ location: "/login", status: 303 });
+  });
+
+  it("calls per-request onRedirect and switches to manual mode", async () => {
+    mockFetch.mockResolvedValue(redirectResponse("/elsewhere"));
+    const onRedirect = vi.fn();
+    const client = createFetchClient({ baseUrl: "https://example.com" });
+
+    await client.safeGet("/me", { onRedirect });
+
+    expect(lastRequest().redirect).toBe("manual");
+    expect(onRedirect).toHaveBeenCalledWith(
+      expect.objectContaining({ location: "/elsewhere", status: 302 })
+    );
+  });
+
+  it("runs per-request onRedirect before the server handler", async () => {
+    setServerEnv(true);
+    mockFetch.mockResolvedValue(redirectResponse("/login"));
+    const calls: string[] = [];
+
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      redirects: {
+        onServerRedirect: () => {
+          calls.push("server");
+          throw new Error("NEXT_REDIRECT");
+        },
+      },
+    });
+
+    await expect(
+      client.safeGet("/me", { onRedirect: () => void calls.push("request") })
+    ).rejects.toThrow("NEXT_REDIRECT");
+    expect(calls).toEqual(["request", "server"]);
+  });
+
+  it("handles opaque redirects from browsers", async () => {
+    mockFetch.mockResolvedValue(opaqueRedirectResponse());
+    const onClientRedirect = vi.fn();
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      redirects: { onClientRedirect },
+    });
+
+    // Deduping clones the response, which drops the mocked properties
+    const res = await client.safeGet("/sso", { dedupe: false });
+
+    expect(res).toMatchObject({
+      redirected: true,
+      status: 0,
+      opaque: true,
+      location: "https://example.com/sso",
+    });
+    expect(onClientRedirect).toHaveBeenCalledWith(
+      expect.objectContaining({ opaque: true })
+    );
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createFetchClient } from "../src/createClient";
+
+// ============================================================================
+// Mocks & Helpers
+// ============================================================================
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function mockResponse(body: any, init: ResponseInit = {}) {
+  return new Response(JSON.stringify(body), {
+    ...init,
+    headers: { "content-type": "application/json", ...init.headers },
+  });
+}
+
+// Retries without waiting
+const fast = { delay: 0, jitter: false };
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("Retry policy", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("sends requests once when no retry policy is configured", async () => {
+    mockFetch.mockResolvedValue(mockResponse({}, { status: 503 }));
+
+    const client = createFetchClient({ baseUrl: "https://example.com" });
+    const res = await client.safeGet("/flaky");
+
+    expect(mockFetch).toHaveBeenCalledOnce();
+    expect(res).toMatchObject({ ok: false, status: 503, attempts: 1 });
+  });
+
+  it("retries retryable statuses and reports the attempt count", async () => {
+    mockFetch
+      .mockResolvedValueOnce(mockResponse({}, { status: 502 }))
+      .mockResolvedValueOnce(mockResponse({}, { status: 503 }))
+      .mockResolvedValueOnce(mockResponse({ id: 1 }));
+
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      retry: { attempts: 3, ...fast },
+    });
+    const res = await client.safeGet("/flaky");
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(res).toMatchObject({ ok: true, data: { id: 1 }, attempts: 3 });
+  });
+
+  it("retries network errors", async () => {
+    mockFetch
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(mockResponse({ id: 1 }));
+
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      retry: { attempts: 2, ...fast },
+    });
+
+    expect(await client.get("/flaky")).toEqual({ id: 1 });
+  });
+
+  it("only retries idempotent methods by default", async () => {
+    mockFetch.mockResolvedValue(mockResponse({}, { status: 503 }));
+
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      retry: { attempts: 3, ...fast },
+    });
+
+    await client.safePost("/orders", { body: { a: 1 } });
+    expect(mockFetch).toHaveBeenCalledOnce();
+
+    await client.safePost("/orders", {
+      body: { a: 1 },
+      retry: { methods: ["POST"] },
+    });
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+  });
+
+  it("allows disabling retries per request", async () => {
+    mockFetch.mockResolvedValue(mockResponse({}, { status: 500 }));
+
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      retry: { attempts: 3, ...fast },
+    });
+    await client.safeGet("/flaky", { retry: false });
+
+    expect(mockFetch).toHaveBeenCalledOnce();
+  });
+
+  it("does not retry statuses outside the policy", async () => {
+    mockFetch.mockResolvedValue(mockResponse({}, { status: 404 }));
+
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      retry: { attempts: 3, ...fast },
+    });
+    await client.safeGet("/missing");
+
+    expect(mockFetch).toHaveBeenCalledOnce();
+  });
+
+  it("honors Retry-After on 429", async () => {
+    vi.useFakeTimers();
+    try {
+      mockFetch
+        .mockResolvedValueOnce(
+          mockResponse({}, { status: 429, headers: { "retry-after": "2" } })
+        )
+        .mockResolvedValueOnce(mockResponse({ id: 1 }));
+
+      const client = createFetchClient({
+        baseUrl: "https://example.com",
+        retry: { attempts: 2, delay: 10 },
+      });
+      const pending = client.get("/limited");
+
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(mockFetch).toHaveBeenCalledOnce();
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(await pending).toEqual({ id: 1 });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("only calls onError once retries are exhausted", async () => {
+    mockFetch.mockImplementation(async () => mockResponse({}, { status: 503 }));
+    const onError = vi.fn();
+    const handleServerError = vi.fn();
+
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      retry: { attempts: 3, ...fast },
+      errors: { handleServerError },
+    });
+    const res = await client.safeGet("/down", { onError });
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(onError).toHaveBeenCalledOnce();
+    expect(handleServerError).toHaveBeenCalledOnce();
+    expect(res).toMatchObject({ ok: false, status: 503, attempts: 3 });
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, vi, expectTypeOf } from "vitest";
+import { createFetchClient } from "../src/createApiSingleton";
+import type {
+  FetchClient,
+  FetchClientConfig,
+  PathParamNames,
+  SafeFetchClient,
+  StandardResponse,
+} from "../src/types";
+
+// ============================================================================
+// Mocks & Helpers
+// ============================================================================
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function lastRequest(): Request {
+  return mockFetch.mock.calls.at(-1)![0] as Request;
+}
+
+type User = { id: number; name: string };
+
+type ApiRoutes = {
+  "/users": {
+    GET: { query: { page?: number }; response: User[] };
+    POST: { body: { name: string }; response: User };
+  };
+  "/users/:id": {
+    GET: { response: User };
+    DELETE: {};
+  };
+  "/orgs/:org/members/:member": {
+    PUT: { body?: { role: string }; response: { ok: true } };
+  };
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("Path params", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockFetch.mockImplementation(async () => new Response("{}"));
+  });
+
+  const api = createFetchClient({ baseUrl: "https://example.com/api" });
+
+  it("substitutes and encodes path params", async () => {
+    await api.get("/users/:id/files/:name", {
+      pathParams: { id: 1, name: "a b/../c" },
+    });
+
+    expect(lastRequest().url).toBe(
+      "https://example.com/api/users/1/files/a%20b%2F..%2Fc"
+    );
+  });
+
+  it("keeps ports and query params intact", async () => {
+    await api.get("http://localhost:8080/users/:id", {
+      pathParams: { id: "x" },
+      params: { q: ":id" },
+    });
+
+    expect(lastRequest().url).toBe("http://localhost:8080/users/x?q=%3Aid");
+  });
+
+  it("throws on missing path params", async () => {
+    await expect(api.get("/users/:id", { pathParams: {} })).rejects.toThrow(
+      'Missing path param "id" for "/users/:id"'
+    );
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("fills whole segments and templates inside segments", async () => {
+    await api.get("/pets/:pet-id/files/{name}.{ext}", {
+      pathParams: { "pet-id": 7, name: "a b", ext: "json" },
+    });
+
+    expect(lastRequest().url).toBe(
+      "https://example.com/api/pets/7/files/a%20b.json"
+    );
+    expectTypeOf<
+      PathParamNames<"/pets/:pet-id/files/{name}.{ext}">
+    >().toEqualTypeOf<"pet-id" | "name" | "ext">();
+  });
+
+  it("throws on placeholders left without a value", async () => {
+    await expect(
+      api.get("/files/{name}.{ext}", { pathParams: { name: "a" } })
+    ).rejects.toThrow('Missing path param "ext" for "/files/{name}.{ext}"');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("leaves query strings and paths without pathParams alone", async () => {
+    await api.get('/search/:kind?q={term}&filter={"a":1}', {
+      pathParams: { kind: "users" },
+    });
+    expect(lastRequest().url).toBe(
+      "https://example.com/api/search/users?q={term}&filter={%22a%22:1}"
+    );
+
+    await api.get("/files/{name}");
+    expect(lastRequest().url).toBe("https://example.com/api/files/%7Bname%7D");
+  });
+});
+
+describe("Typed routes", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockFetch.mockImplementation(
+      async () =>
+        new Response('{"id":1,"name":"Ada"}', {
+          headers: { "content-type": "application/json" },
+        })
+    );
+  });
+
+  const api = createFetchClient({
+    baseUrl: "https://example.com",
+    routes: {} as ApiRoutes,
+  });
+
+  it("infers responses and requires path params", async () => {
+    const user = await api.get("/users/:id", { pathParams: { id: 1 } });
+
+    expectTypeOf(user).toEqualTypeOf<User>();
+    expect(user).toEqual({ id: 1, name: "Ada" });
+    expect(lastRequest().url).toBe("https://example.com/users/1");
+  });
+
+  it("types query params, bodies and safe results", async () => {
+    const users = await api.get("/users", { params: { page: 2 } });
+    expectTypeOf(users).toEqualTypeOf<User[]>();
+    expect(lastRequest().url).toBe("https://example.com/users?page=2");
+
+    const created = await api.safePost("/users", { body: { name: "Ada" } });
+    expectTypeOf(created).toEqualTypeOf<StandardResponse<User>>();
+    expect(await lastRequest().json()).toEqual({ name: "Ada" });
+  });
+
+  it("allows omitting options when nothing is required", async () => {
+    await api.get("/users");
+    await api.put("/orgs/:org/members/:member", {
+      pathParams: { org: "acme", member: 7 },
+    });
+
+    expect(lastRequest().url).toBe("https://example.com/orgs/acme/members/7");
+  });
+
+  it("rejects unknown paths, methods and missing params at compile time", () => {
+    // Only type-checked, never called
+    const typeErrors = () => {
+      // @ts-expect-error unknown path
+      api.get("/nope");
+      // @ts-expect-error method not declared for the path
+      api.patch("/users");
+      // @ts-expect-error path params are required
+      api.get("/users/:id");
+      // @ts-expect-error wrong path param name
+      api.delete("/users/:id", { pathParams: { userId: 1 } });
+      // @ts-expect-error body is required
+      api.post("/users", {});
+      // @ts-expect-error wrong query type
+      api.get("/users", { params: { page: "2" } });
+    };
+
+    expect(typeErrors).toBeTypeOf("function");
+  });
+
+  it("keeps clients without routes untyped", async () => {
+    const config: FetchClientConfig = { baseUrl: "https://example.com" };
+    const annotated = createFetchClient(config);
+
+    expectTypeOf(createFetchClient()).toEqualTypeOf<FetchClient>();
+    expectTypeOf(annotated).toEqualTypeOf<FetchClient>();
+    expectTypeOf(
+      createFetchClient({ options: { disableUnsafeRequests: true } })
+    ).toEqualTypeOf<SafeFetchClient>();
+
+    await createFetchClient().post("https://example.com/u", { body: { a: 1 } });
+    const user = await annotated.get<{ id: number }>("/u");
+    expectTypeOf(user).toEqualTypeOf<{ id: number }>();
+  });
+
+  it("keeps request() as an untyped escape hatch", async () => {
+    await api.request("/health", { method: "GET" });
+
+    expect(lastRequest().url).toBe("https://example.com/health");
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createFetchClient } from "../src/createClient";
+
+// ============================================================================
+// Mocks & Helpers
+// ============================================================================
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function setServerEnv(isServer: boolean) {
+  if (isServer) {
+    // @ts-ignore
+    delete global.window;
+  } else {
+    // @ts-ignore
+    global.window = {};
+  }
+}
+
+function lastRequest(): Request {
+  return mockFetch.mock.calls.at(-1)![0] as Request;
+}
+
+function cookieStoreOf(cookies: Record<string, string>) {
+  return {
+    get(name: string) {
+      const value = cookies[name];
+      return value ? { value } : undefined;
+    },
+  };
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("Server auth cookies", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    setServerEnv(true);
+    mockFetch.mockImplementation(async () => new Response("{}"));
+  });
+
+  it("forwards cookies returned by auth.server.cookies", async () => {
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      cookies: cookieStoreOf({ JSESSIONID: "abc123" }),
+      auth: {
+        server: {
+          cookies: ({ cookieStore }) => ({
+            JSESSIONID: cookieStore.get("JSESSIONID")?.value || "",
+          }),
+        },
+      },
+    });
+
+    await client.get("/me");
+
+    expect(lastRequest().headers.get("cookie")).toBe("JSESSIONID=abc123");
+  });
+
+  it("resolves the cookie store per request and passes url and method", async () => {
+    const resolveStore = vi.fn(async () => cookieStoreOf({ sid: "1" }));
+    const cookies = vi.fn(({ cookieStore }) => ({
+      sid: cookieStore.get("sid")?.value ?? "",
+    }));
+
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      cookies: resolveStore,
+      auth: { server: { cookies } },
+    });
+
+    await client.post("/a");
+    await client.get("/b");
+
+    expect(resolveStore).toHaveBeenCalledTimes(2);
+    expect(cookies).toHaveBeenLastCalledWith(
+      expect.objectContaining({ url: "https://example.com/b", method: "GET" })
+    );
+  });
+
+  it("escapes values and merges with user-supplied cookies", async () => {
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      auth: {
+        server: {
+          cookies: () => ({ token: "a b;c", theme: "dark", empty: "" }),
+        },
+      },
+    });
+
+    await client.get("/me", { headers: { cookie: "theme=light; lang=en" } });
+
+    expect(lastRequest().headers.get("cookie")).toBe(
+      "token=a%20b%3Bc; theme=light; lang=en"
+    );
+  });
+
+  it("skips cookies when disableAuth or auth.server.enabled is false", async () => {
+    const cookies = vi.fn(() => ({ sid: "1" }));
+
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      auth: { server: { cookies } },
+    });
+    await client.get("/public", { disableAuth: true });
+    expect(lastRequest().headers.get("cookie")).toBeNull();
+
+    const disabled = createFetchClient({
+      baseUrl: "https://example.com",
+      auth: { server: { enabled: false, cookies } },
+    });
+    await disabled.get("/me");
+    expect(lastRequest().headers.get("cookie")).toBeNull();
+
+    expect(cookies).not.toHaveBeenCalled();
+  });
+
+  it("does not read server cookies in the browser", async () => {
+    setServerEnv(false);
+    const cookies = vi.fn(() => ({ sid: "1" }));
+
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      auth: { server: { cookies } },
+    });
+    await client.get("/me");
+
+    expect(cookies).not.toHaveBeenCalled();
+  });
+});
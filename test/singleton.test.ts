@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createFetchClient } from "../src/createApiSingleton";
+import { runInRequestScope } from "../src/scope";
+import * as clientModule from "../src/createClient";
+
+vi.mock("../src/createClient", async (importOriginal) => {
+  const original = await importOriginal<typeof clientModule>();
+  return { createFetchClient: vi.fn(original.createFetchClient) };
+});
+
+// ============================================================================
+// Mocks & Helpers
+// ============================================================================
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const createClientSpy = vi.mocked(clientModule.createFetchClient);
+
+function setServerEnv(isServer: boolean) {
+  if (isServer) {
+    // @ts-ignore
+    delete global.window;
+  } else {
+    // @ts-ignore
+    global.window = {};
+  }
+}
+
+function lastRequest(): Request {
+  return mockFetch.mock.calls.at(-1)![0] as Request;
+}
+
+function lastRequestFor(user: string): Request {
+  return mockFetch.mock.calls
+    .map(([req]) => req as Request)
+    .filter((req) => req.url.endsWith(`user=${user}`))
+    .at(-1)!;
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("Lazy client", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    createClientSpy.mockClear();
+    setServerEnv(true);
+    mockFetch.mockImplementation(async () => new Response("{}"));
+  });
+
+  it("gives each call its own client and config", async () => {
+    const users = createFetchClient({ baseUrl: "https://users.example.com" });
+    const orders = createFetchClient({ baseUrl: "https://orders.example.com" });
+
+    await users.get("/me");
+    expect(lastRequest().url).toBe("https://users.example.com/me");
+
+    await orders.get("/latest");
+    expect(lastRequest().url).toBe("https://orders.example.com/latest");
+  });
+
+  it("creates the client once, on first use", async () => {
+    const api = createFetchClient({ baseUrl: "https://example.com" });
+    expect(createClientSpy).not.toHaveBeenCalled();
+
+    await api.get("/a");
+    await api.safeGet("/b");
+
+    expect(createClientSpy).toHaveBeenCalledOnce();
+  });
+
+  it("only exposes the client's methods", () => {
+    const api = createFetchClient({ baseUrl: "https://example.com" });
+    const safe = createFetchClient({
+      baseUrl: "https://example.com",
+      options: { disableUnsafeRequests: true },
+    });
+
+    expect(Object.keys(api)).toContain("get");
+    expect((api as any).then).toBeUndefined();
+    expect("get" in safe).toBe(false);
+    expect(Object.keys(safe)).toEqual([
+      "invalidate",
+      "extend",
+      "with",
+      "safeGet",
+      "safePost",
+      "safePut",
+      "safePatch",
+      "safeDelete",
+      "request",
+    ]);
+  });
+
+  describe("request scope", () => {
+    it("uses one client per request scope on the server", async () => {
+      const api = createFetchClient({
+        baseUrl: "https://example.com",
+        options: { scope: "request" },
+      });
+
+      await Promise.all([
+        runInRequestScope(async () => {
+          await api.get("/a");
+          await api.get("/b");
+        }),
+        runInRequestScope(() => api.get("/c")),
+      ]);
+
+      expect(createClientSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it("never shares token refreshes between concurrent requests", async () => {
+      mockFetch.mockImplementation(async (req: Request) =>
+        req.headers.get("authorization") === "Bearer expired"
+          ? new Response(null, { status: 401 })
+          : new Response("{}")
+      );
+      const api = createFetchClient({
+        baseUrl: "https://example.com",
+        auth: {
+          token: {
+            getToken: () => "expired",
+            refresh: async ({ url }) => {
+              await new Promise((r) => setTimeout(r, 1));
+              return `token-${new URL(url).searchParams.get("user")}`;
+            },
+          },
+        },
+        options: { scope: "request" },
+      });
+
+      const headers = await Promise.all(
+        ["a", "b"].map((user) =>
+          runInRequestScope(async () => {
+            await api.get("/me", { params: { user } });
+            return lastRequestFor(user).headers.get("authorization");
+          })
+        )
+      );
+
+      expect(headers).toEqual(["Bearer token-a", "Bearer token-b"]);
+    });
+
+    it("creates a client per call outside a request scope", async () => {
+      const api = createFetchClient({
+        baseUrl: "https://example.com",
+        options: { scope: "request" },
+      });
+
+      await api.get("/a");
+      await api.get("/b");
+
+      expect(createClientSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it("shares one client in the browser", async () => {
+      setServerEnv(false);
+      const api = createFetchClient({
+        baseUrl: "https://example.com",
+        options: { scope: "request" },
+      });
+
+      await api.get("/a");
+      await api.get("/b");
+
+      expect(createClientSpy).toHaveBeenCalledOnce();
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createFetchClient } from "../src/createClient";
+import { createFetchClient as createLazyClient } from "../src/createApiSingleton";
+import { AbortError, FetchError, type ServerSentEvent } from "../src/types";
+
+// ============================================================================
+// Mocks & Helpers
+// ============================================================================
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function lastRequest(): Request {
+  return mockFetch.mock.calls.at(-1)![0] as Request;
+}
+
+// Sends each chunk as a separate read
+function streamOf(chunks: string[], options: { fail?: boolean } = {}) {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const chunk = chunks.shift();
+      if (chunk !== undefined) return controller.enqueue(encoder.encode(chunk));
+      if (options.fail) controller.error(new TypeError("terminated"));
+      else controller.close();
+    },
+  });
+}
+
+function streamResponse(
+  chunks: string[],
+  contentType: string,
+  options: { fail?: boolean; status?: number } = {}
+) {
+  return new Response(streamOf(chunks, options), {
+    status: options.status ?? 200,
+    headers: { "content-type": contentType },
+  });
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("client.stream", () => {
+  const client = createFetchClient({
+    baseUrl: "https://example.com",
+    headers: { authorization: "Bearer token" },
+  });
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe("server-sent events", () => {
+    it("parses events split across chunks", async () => {
+      mockFetch.mockResolvedValue(
+        streamResponse(
+          [
+            ": comment\n\nda",
+            "ta: hello\r",
+            '\ndata: world\n\nevent: update\nid: 7\ndata:{"a":1}\n\n',
+            "data: unterminated",
+          ],
+          "text/event-stream"
+        )
+      );
+
+      const events = await collect(client.stream("/events"));
+
+      expect(events).toEqual([
+        { event: "message", data: "hello\nworld", id: undefined },
+        { event: "update", data: '{"a":1}', id: "7" },
+      ]);
+      expect(lastRequest().headers.get("authorization")).toBe("Bearer token");
+    });
+
+    it("reconnects with Last-Event-ID", async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          streamResponse(
+            ["retry: 0\nid: 1\ndata: a\n\n"],
+            "text/event-stream",
+            {
+              fail: true,
+            }
+          )
+        )
+        .mockResolvedValueOnce(
+          streamResponse(["id: 2\ndata: b\n\n"], "text/event-stream")
+        )
+        .mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+      const events = await collect(
+        client.stream("/events", { format: "sse", reconnect: true })
+      );
+
+      expect(events.map((e) => e.data)).toEqual(["a", "b"]);
+      const requests = mockFetch.mock.calls.map(([req]) => req as Request);
+      expect(requests.map((r) => r.headers.get("last-event-id"))).toEqual([
+        null,
+        "1",
+        "2",
+      ]);
+      expect(requests[0].headers.get("accept")).toBe("text/event-stream");
+    });
+
+    it("gives up after the configured reconnect attempts", async () => {
+      mockFetch.mockImplementation(async () =>
+        streamResponse([], "text/event-stream")
+      );
+
+      await collect(
+        client.stream("/events", { reconnect: { delay: 0, attempts: 2 } })
+      );
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("does not reconnect without the option", async () => {
+      mockFetch.mockResolvedValue(
+        streamResponse(["data: a\n\n"], "text/event-stream", { fail: true })
+      );
+
+      await expect(collect(client.stream("/events"))).rejects.toThrow(
+        "terminated"
+      );
+      expect(mockFetch).toHaveBeenCalledOnce();
+    });
+  });
+
+  it("streams NDJSON values", async () => {
+    mockFetch.mockResolvedValue(
+      streamResponse(
+        ['{"a":1}\n{"a"', ":2}\n\n", '{"a":3}'],
+        "application/x-ndjson"
+      )
+    );
+
+    expect(await collect(client.stream("/items"))).toEqual([
+      { a: 1 },
+      { a: 2 },
+      { a: 3 },
+    ]);
+  });
+
+  it("streams text chunks, e.g. for POST completions", async () => {
+    mockFetch.mockResolvedValue(
+      streamResponse(["Hel", "lo"], "text/plain; charset=utf-8")
+    );
+
+    const chunks = await collect(
+      client.stream("/complete", {
+        method: "POST",
+        body: { prompt: "Hi" },
+        format: "text",
+      })
+    );
+
+    expect(chunks).toEqual(["Hel", "lo"]);
+    expect(lastRequest().method).toBe("POST");
+    expect(await lastRequest().json()).toEqual({ prompt: "Hi" });
+  });
+
+  it("throws non-2xx responses through the error pipeline", async () => {
+    mockFetch.mockResolvedValue(
+      new Response('{"message":"nope"}', {
+        status: 403,
+        headers: { "content-type": "application/json" },
+      })
+    );
+
+    await expect(collect(client.stream("/events"))).rejects.toBeInstanceOf(
+      FetchError
+    );
+  });
+
+  it("ignores onError overrides, streams need a response", async () => {
+    mockFetch.mockResolvedValue(new Response(null, { status: 500 }));
+
+    const events = client.stream("/events", {
+      // @ts-expect-error not supported by stream()
+      onError: () => "override",
+    });
+
+    await expect(collect(events)).rejects.toBeInstanceOf(FetchError);
+  });
+
+  it("stops reading when the signal aborts", async () => {
+    mockFetch.mockResolvedValue(
+      new Response(
+        new ReadableStream({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode("data: a\n\n"));
+          },
+        }),
+        { headers: { "content-type": "text/event-stream" } }
+      )
+    );
+    const controller = new AbortController();
+    const events: ServerSentEvent[] = [];
+
+    const reading = (async () => {
+      for await (const event of client.stream("/events", {
+        format: "sse",
+        signal: controller.signal,
+      })) {
+        events.push(event);
+        controller.abort();
+      }
+    })();
+
+    await expect(reading).rejects.toBeInstanceOf(AbortError);
+    expect(events).toHaveLength(1);
+  });
+
+  it("releases the body when the consumer stops early", async () => {
+    const cancel = vi.fn();
+    mockFetch.mockResolvedValue(
+      new Response(
+        new ReadableStream({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode("data: a\n\n"));
+          },
+          cancel,
+        }),
+        { headers: { "content-type": "text/event-stream" } }
+      )
+    );
+
+    for await (const _ of client.stream("/events")) break;
+
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it("works on lazily created clients", async () => {
+    mockFetch.mockResolvedValue(
+      streamResponse(["data: a\n\n"], "text/event-stream")
+    );
+    const lazy = createLazyClient({ baseUrl: "https://example.com" });
+
+    expect(await collect(lazy.stream("/events"))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createFetchClient } from "../src/createClient";
+import { AbortError, TimeoutError } from "../src/types";
+
+// ============================================================================
+// Mocks & Helpers
+// ============================================================================
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+// Never resolves, rejects like fetch once the request is aborted
+function hangingFetch(req: Request) {
+  return new Promise<Response>((_, reject) => {
+    if (req.signal.aborted) return reject(req.signal.reason);
+    req.signal.addEventListener("abort", () => reject(req.signal.reason));
+  });
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("Timeouts & cancellation", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockFetch.mockImplementation(hangingFetch);
+  });
+
+  it("throws a TimeoutError when the client timeout elapses", async () => {
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      timeout: 20,
+    });
+
+    await expect(client.get("/slow")).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it("lets the request timeout override the client timeout", async () => {
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      timeout: 60_000,
+    });
+
+    const res = await client.safeGet("/slow", { timeout: 20 });
+
+    expect(res).toMatchObject({ ok: false, status: 0, reason: "timeout" });
+  });
+
+  it("returns a shaped error with reason 'aborted' from safe methods", async () => {
+    const client = createFetchClient({ baseUrl: "https://example.com" });
+    const controller = new AbortController();
+
+    const pending = client.safeGet("/slow", { signal: controller.signal });
+    controller.abort("navigated away");
+
+    expect(await pending).toMatchObject({
+      ok: false,
+      status: 0,
+      reason: "aborted",
+    });
+  });
+
+  it("throws an AbortError carrying the caller's reason", async () => {
+    const client = createFetchClient({ baseUrl: "https://example.com" });
+    const controller = new AbortController();
+    controller.abort("cancelled");
+
+    const err = await client.get("/slow", { signal: controller.signal }).then(
+      () => null,
+      (e) => e
+    );
+
+    expect(err).toBeInstanceOf(AbortError);
+    expect(err.reason).toBe("cancelled");
+  });
+
+  it("runs error handlers for timeouts but not for aborts", async () => {
+    const handleServerError = vi.fn();
+    const onError = vi.fn();
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      errors: { handleServerError },
+    });
+
+    await client.safeGet("/slow", { timeout: 10, onError });
+    expect(handleServerError).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: "timeout" }),
+      expect.anything()
+    );
+    expect(onError).toHaveBeenCalledOnce();
+
+    const controller = new AbortController();
+    controller.abort();
+    await client.safeGet("/slow", { signal: controller.signal, onError });
+    expect(handleServerError).toHaveBeenCalledOnce();
+    expect(onError).toHaveBeenCalledOnce();
+  });
+
+  it("does not retry once the timeout has elapsed", async () => {
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      retry: { attempts: 5, delay: 0 },
+    });
+
+    const res = await client.safeGet("/slow", { timeout: 20 });
+
+    expect(mockFetch).toHaveBeenCalledOnce();
+    expect(res).toMatchObject({ reason: "timeout", attempts: 1 });
+  });
+});
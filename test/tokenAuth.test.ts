@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createFetchClient } from "../src/createClient";
+import { FetchError } from "../src/types";
+
+// ============================================================================
+// Mocks & Helpers
+// ============================================================================
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function setServerEnv(isServer: boolean) {
+  if (isServer) {
+    // @ts-ignore
+    delete global.window;
+  } else {
+    // @ts-ignore
+    global.window = {};
+  }
+}
+
+function requestAt(i: number): Request {
+  return mockFetch.mock.calls[i][0] as Request;
+}
+
+// 401 unless the request carries the expected token
+function respondFor(validToken: string) {
+  return async (req: Request) =>
+    req.headers.get("authorization") === `Bearer ${validToken}`
+      ? new Response(JSON.stringify({ ok: true }), {
+          headers: { "content-type": "application/json" },
+        })
+      : new Response(null, { status: 401, statusText: "Unauthorized" });
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("Token auth", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    setServerEnv(true);
+  });
+
+  it("sends the token in the Authorization header on client and server", async () => {
+    mockFetch.mockImplementation(respondFor("t1"));
+
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      auth: { token: { getToken: () => "t1" } },
+    });
+
+    await client.get("/me");
+    setServerEnv(false);
+    await client.get("/me");
+
+    expect(requestAt(0).headers.get("authorization")).toBe("Bearer t1");
+    expect(requestAt(1).headers.get("authorization")).toBe("Bearer t1");
+  });
+
+  it("skips the token when auth is disabled for the request", async () => {
+    mockFetch.mockResolvedValue(new Response("{}"));
+
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      auth: { token: { getToken: () => "t1" } },
+    });
+
+    await client.get("/public", { disableAuth: true });
+
+    expect(requestAt(0).headers.get("authorization")).toBeNull();
+  });
+
+  it("refreshes on 401 and replays the request once", async () => {
+    mockFetch.mockImplementation(respondFor("fresh"));
+    let token = "stale";
+
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      auth: {
+        token: {
+          getToken: () => token,
+          refresh: async () => {
+            token = "fresh";
+          },
+        },
+      },
+    });
+
+    const result = await client.post("/items", { body: { a: 1 } });
+
+    expect(result).toEqual({ ok: true });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(await requestAt(1).json()).toEqual({ a: 1 });
+  });
+
+  it("shares a single in-flight refresh between concurrent 401s", async () => {
+    mockFetch.mockImplementation(respondFor("fresh"));
+    const refresh = vi.fn(async () => {
+      await new Promise((r) => setTimeout(r, 10));
+      return "fresh";
+    });
+
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      auth: { token: { getToken: () => "stale", refresh } },
+    });
+
+    const results = await Promise.all([
+      client.get("/a"),
+      client.get("/b"),
+      client.get("/c"),
+    ]);
+
+    expect(refresh).toHaveBeenCalledOnce();
+    expect(results).toEqual([{ ok: true }, { ok: true }, { ok: true }]);
+  });
+
+  it("never shares a refresh between requests with different tokens", async () => {
+    // Two users on a shared server client, each with their own token
+    const tokenFor = (url: string) => (url.endsWith("/a") ? "tokA" : "tokB");
+    mockFetch.mockImplementation(async (req: Request) =>
+      req.headers.get("authorization")!.endsWith("-new")
+        ? new Response("{}", {
+            headers: { "content-type": "application/json" },
+          })
+        : new Response(null, { status: 401 })
+    );
+    const refresh = vi.fn(async ({ url }: { url: string }) => {
+      await new Promise((r) => setTimeout(r, 10));
+      return `${tokenFor(url)}-new`;
+    });
+
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      auth: { token: { getToken: ({ url }) => tokenFor(url), refresh } },
+    });
+
+    await Promise.all([client.get("/a"), client.get("/b")]);
+
+    expect(refresh).toHaveBeenCalledTimes(2);
+    const replays = mockFetch.mock.calls
+      .map(([req]) => (req as Request).headers.get("authorization"))
+      .filter((auth) => auth!.endsWith("-new"));
+    expect(replays.sort()).toEqual(["Bearer tokA-new", "Bearer tokB-new"]);
+  });
+
+  it("passes a failed refresh to the error handlers", async () => {
+    mockFetch.mockImplementation(respondFor("never"));
+    const handleServerError = vi.fn();
+
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      errors: { handleServerError },
+      auth: {
+        token: {
+          getToken: () => "stale",
+          refresh: () => {
+            throw new Error("refresh token expired");
+          },
+        },
+      },
+    });
+
+    const res = await client.safeGet("/me");
+    expect(res).toMatchObject({ ok: false, status: 401 });
+    expect(handleServerError).toHaveBeenCalledWith(
+      expect.objectContaining({ ok: false, status: 401 }),
+      expect.anything()
+    );
+
+    await expect(client.get("/me")).rejects.toBeInstanceOf(FetchError);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
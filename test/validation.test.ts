@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createFetchClient } from "../src/createClient";
+import { ValidationError, type StandardSchemaV1 } from "../src/types";
+
+// ============================================================================
+// Mocks & Helpers
+// ============================================================================
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function mockResponse(body: any, init: ResponseInit = {}) {
+  return new Response(JSON.stringify(body), {
+    ...init,
+    headers: { "content-type": "application/json", ...init.headers },
+  });
+}
+
+type User = { id: number };
+
+const isUser = (d: any): d is User => typeof d?.id === "number";
+
+// Standard Schema (Zod, Valibot, ArkType)
+const standardSchema: StandardSchemaV1<unknown, User> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: async (value) =>
+      isUser(value)
+        ? { value }
+        : { issues: [{ message: "Expected number", path: [{ key: "id" }] }] },
+  },
+};
+
+// safeParse style
+const safeParseSchema = {
+  safeParse: (data: unknown) =>
+    isUser(data)
+      ? { success: true as const, data }
+      : {
+          success: false as const,
+          error: { issues: [{ message: "Expected number", path: ["id"] }] },
+        },
+};
+
+// parse style, throwing a Zod-like error
+const parseSchema = {
+  parse: (data: unknown): User => {
+    if (isUser(data)) return data;
+    throw Object.assign(new Error("invalid"), {
+      issues: [{ message: "Expected number", path: ["id"] }],
+    });
+  },
+};
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe("Response schema validation", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it.each([
+    ["Standard Schema", standardSchema],
+    ["safeParse", safeParseSchema],
+    ["parse", parseSchema],
+  ])("returns validated data with a %s schema", async (_, schema) => {
+    mockFetch.mockResolvedValue(mockResponse({ id: 1 }));
+    const client = createFetchClient({ baseUrl: "https://example.com" });
+
+    expect(await client.get("/me", { schema })).toEqual({ id: 1 });
+  });
+
+  it.each([
+    ["Standard Schema", standardSchema],
+    ["safeParse", safeParseSchema],
+    ["parse", parseSchema],
+  ])(
+    "returns a shaped validation error with a %s schema",
+    async (_, schema) => {
+      mockFetch.mockResolvedValue(mockResponse({ id: "1" }));
+      const client = createFetchClient({ baseUrl: "https://example.com" });
+
+      const res = await client.safeGet("/me", { schema });
+
+      expect(res).toMatchObject({
+        ok: false,
+        status: 200,
+        reason: "validation",
+        issues: [{ message: "Expected number", path: ["id"] }],
+        data: { id: "1" },
+        message: "Response validation failed: id: Expected number",
+      });
+    }
+  );
+
+  it("throws a ValidationError from unsafe methods", async () => {
+    mockFetch.mockResolvedValue(mockResponse({ id: "1" }));
+    const client = createFetchClient({ baseUrl: "https://example.com" });
+
+    const err = await client.get("/me", { schema: standardSchema }).then(
+      () => null,
+      (e) => e
+    );
+
+    expect(err).toBeInstanceOf(ValidationError);
+    expect(err.issues).toEqual([{ message: "Expected number", path: ["id"] }]);
+    expect(err.data).toEqual({ id: "1" });
+    expect(err.response.status).toBe(200);
+  });
+
+  it("runs the error handlers and onError", async () => {
+    mockFetch.mockResolvedValue(mockResponse({ id: "1" }));
+    const handleServerError = vi.fn();
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      errors: { handleServerError },
+    });
+
+    const result = await client.get("/me", {
+      schema: parseSchema,
+      onError: () => ({ id: -1 }),
+    });
+
+    expect(result).toEqual({ id: -1 });
+    expect(handleServerError).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: "validation" }),
+      expect.anything()
+    );
+  });
+});
+
+describe("Request body validation", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockFetch.mockImplementation(async () => mockResponse({ ok: true }));
+  });
+
+  const NewUser: StandardSchemaV1<{ name: string }, { name: string }> = {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate: (value: any) =>
+        typeof value?.name === "string"
+          ? { value: { name: value.name.trim() } }
+          : { issues: [{ message: "Required", path: ["name"] }] },
+    },
+  };
+
+  it("sends the validated and transformed body", async () => {
+    const client = createFetchClient({ baseUrl: "https://example.com" });
+
+    await client.post("/users", {
+      body: { name: "  Ada  " },
+      bodySchema: NewUser,
+    });
+
+    const req = mockFetch.mock.calls[0][0] as Request;
+    expect(await req.json()).toEqual({ name: "Ada" });
+  });
+
+  it("fails fast without sending the request", async () => {
+    const handleServerError = vi.fn();
+    const client = createFetchClient({
+      baseUrl: "https://example.com",
+      errors: { handleServerError },
+    });
+
+    const res = await client.safePost("/users", {
+      body: {} as any,
+      bodySchema: NewUser,
+    });
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(handleServerError).toHaveBeenCalledOnce();
+    expect(res).toMatchObject({
+      ok: false,
+      status: 0,
+      reason: "validation",
+      issues: [{ message: "Required", path: ["name"] }],
+      message: "Request body validation failed: name: Required",
+    });
+  });
+
+  it("throws a ValidationError without a response from unsafe methods", async () => {
+    const client = createFetchClient({ baseUrl: "https://example.com" });
+
+    const err = await client
+      .put("/users/1", { body: {} as any, bodySchema: parseSchema })
+      .then(
+        () => null,
+        (e) => e
+      );
+
+    expect(err).toBeInstanceOf(ValidationError);
+    expect(err.response).toBeUndefined();
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});